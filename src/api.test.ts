@@ -0,0 +1,172 @@
+import {alfred, Alfred, Feature} from './api';
+
+// records lifecycle calls of all test features, in order
+let calls: string[] = [];
+
+abstract class TestFeature extends Feature {
+  enabled = true;
+
+  async shouldRun() {
+    return true;
+  }
+
+  async init() {
+    calls.push(`init ${this.name}`);
+  }
+
+  async activate() {
+    calls.push(`activate ${this.name}`);
+    this.teardownQueue.push(() => {
+      calls.push(`teardown ${this.name}`);
+    });
+  }
+}
+
+class Base extends TestFeature {
+  name = 'Base';
+  description = 'a feature others depend on';
+  value = '{"size": 1}';
+}
+
+class Dependent extends TestFeature {
+  name = 'Dependent';
+  description = 'a feature depending on base';
+  dependencies = ['Base'];
+}
+
+class Standalone extends TestFeature {
+  name = 'Standalone';
+  description = 'a feature without dependencies';
+  // would run first without dependencies
+  priority = -1;
+}
+
+Alfred.registerFeature(Dependent);
+Alfred.registerFeature(Base);
+Alfred.registerFeature(Standalone);
+
+const base = Alfred.features.get('Base')!;
+const dependent = Alfred.features.get('Dependent')!;
+const standalone = Alfred.features.get('Standalone')!;
+
+const SETTINGS = {
+  Base: {enabled: true, value: '{"size": 1}'},
+  Dependent: {enabled: true},
+  Standalone: {enabled: true},
+};
+
+// setSettings does not wait for features to run
+function flush() {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+describe('Alfred', () => {
+  beforeAll(async () => {
+    alfred.setSettings(SETTINGS);
+    await flush();
+  });
+
+  beforeEach(() => {
+    calls = [];
+  });
+
+  // back to the first settings, only changed features run again
+  afterEach(async () => {
+    alfred.skipSync = false;
+    alfred.setSettings(SETTINGS);
+    await flush();
+  });
+
+  it('orders features by priority and dependencies', () => {
+    expect(alfred.features.map(f => f.name)).toEqual([
+      'Standalone', 'Base', 'Dependent'
+    ]);
+  });
+
+  it('ran every feature once with the first settings', () => {
+    [base, dependent, standalone].forEach(feature => {
+      expect(alfred.isActive(feature)).toBe(true);
+      expect(feature.stats.runTimes).toBe(1);
+    });
+  });
+
+  it('does not run features again when settings are the same', async () => {
+    alfred.setSettings({...SETTINGS});
+    await flush();
+
+    expect(calls).toEqual([]);
+  });
+
+  it('runs a feature again along with its dependents on change', async () => {
+    alfred.setSettings({...SETTINGS, Base: {enabled: true, value: '{}'}});
+    await flush();
+
+    expect(base.value).toBe('{}');
+    // dependents tear down first and activate last, init only happens once
+    expect(calls).toEqual([
+      'teardown Dependent', 'teardown Base', 'activate Base',
+      'activate Dependent'
+    ]);
+  });
+
+  it('runs only the feature without dependents on change', async () => {
+    alfred.setSettings({...SETTINGS, Standalone: {enabled: false}});
+    await flush();
+
+    expect(calls).toEqual(['teardown Standalone']);
+    expect(alfred.isActive(standalone)).toBe(false);
+  });
+
+  it('keeps the value when settings have none', async () => {
+    const value = base.value;
+    alfred.setSettings({...SETTINGS, Base: {enabled: true}});
+    await flush();
+
+    expect(base.value).toBe(value);
+  });
+
+  it('skips features whose dependencies are inactive', async () => {
+    alfred.setSettings({...SETTINGS, Base: {enabled: false}});
+    await flush();
+
+    expect(alfred.isActive(base)).toBe(false);
+    expect(alfred.isActive(dependent)).toBe(false);
+    expect(calls).toEqual(['teardown Dependent', 'teardown Base']);
+  });
+
+  it('does not run anything with noRun', async () => {
+    alfred.setSettings({...SETTINGS, Standalone: {enabled: false}}, true);
+    await flush();
+
+    expect(calls).toEqual([]);
+    expect(standalone.enabled).toBe(false);
+    await alfred.run([standalone]);
+    expect(calls).toEqual(['teardown Standalone']);
+  });
+
+  it('clears the teardown queue on deactivate', async () => {
+    await alfred.run([standalone]);
+    await alfred.run([standalone]);
+
+    // each activation is torn down exactly once
+    expect(calls).toEqual([
+      'teardown Standalone', 'activate Standalone', 'teardown Standalone',
+      'activate Standalone'
+    ]);
+  });
+
+  it('resolves setSettings once features ran again', async () => {
+    await alfred.setSettings({...SETTINGS, Standalone: {enabled: false}});
+
+    expect(calls).toEqual(['teardown Standalone']);
+  });
+
+  it('enables a feature on this page only', async () => {
+    alfred.setFeatureEnabled('Standalone', false);
+    await flush();
+
+    expect(alfred.skipSync).toBe(true);
+    expect(alfred.isActive(standalone)).toBe(false);
+    expect(alfred.getSettings()['Standalone'].enabled).toBe(false);
+  });
+});
@@ -1,21 +1,45 @@
-import {FeatureStats, Settings} from './types';
+import {FeatureSchema, ValidationError, validateValue} from './schema';
+import {FeatureStats, NavigationEvent, Settings} from './types';
 import {debug, waitFor} from './utils';
 
+// failures and durations kept per feature until they are reported
+const MAX_PENDING_STATS = 50;
+
+// add to the list, dropping the oldest items beyond the cap
+function pushCapped<T>(list: T[], item: T) {
+  list.push(item);
+  list.splice(0, list.length - MAX_PENDING_STATS);
+}
+
 /** Type for feature constructors */
 export type FeatureConstructor = new (api: Alfred) => Feature;
 
 // LINT.IfChange
 /**
  * Interface for Feature.
+ *
+ * Lifecycle: `init` once before the first activation, `activate` when
+ * enabled and `shouldRun`, `deactivate` before re-activating or when
+ * disabled, and `onNavigate` when the url changes while active.
  */
 export abstract class Feature {
   abstract name: string;
   abstract description: string;
-  protected teardownQueue: Array<() => void> = [];
+  // run on deactivate, in order
+  protected teardownQueue: Array<() => void | Promise<void>> = [];
+
+  // names of features that must be active before this one activates
+  dependencies: string[] = [];
+
+  // fields of the value that can be edited from the in-page toggles panel
+  quickFields: string[] = [];
 
   // default value, this value will be updated from storage when load
   value?: string;
 
+  // schema of the value, fields are validated against it before saving
+  schema?: FeatureSchema;
+
   // default all opt-in
   // also will be the value for boolean features
   enabled: boolean = false;
@@ -27,6 +51,7 @@ export abstract class Feature {
   stats: FeatureStats = {
     runTimes: 0,
     failures: [],
+    durations: [],
   };
 
   constructor(protected api: Alfred) {}
@@ -34,29 +59,57 @@ export abstract class Feature {
   // return true if should run this feature
   abstract async shouldRun(): Promise<boolean>;
 
-  // Execution when enabled
-  abstract async run(): Promise<void>;
+  // set up shared by all activations, once per page
+  async init(): Promise<void> {}
 
-  // clean up when feature is disabled
-  async cleanup(): Promise<void> {
-    this.teardownQueue.forEach(tdfn => {
-      // TODO: async ?
-      tdfn();
-    });
-    return;
+  // Execution when enabled, push clean up to `teardownQueue`
+  abstract async activate(): Promise<void>;
+
+  // clean up when feature is disabled or before activating again
+  async deactivate(): Promise<void> {
+    const queue = this.teardownQueue;
+    this.teardownQueue = [];
+    for (const tdfn of queue) {
+      await tdfn();
+    }
+  }
+
+  // url changed without a page load, return true if handled in place,
+  // otherwise the feature is deactivated and activated again
+  async onNavigate(event: NavigationEvent): Promise<boolean> {
+    return false;
   }
 
   // Validate if value is valid
   async validate(value?: string): Promise<boolean> {
-    if (value === undefined) return true;
+    return !(await this.validateFields(value)).length;
+  }
+
+  // Validate value and return all invalid fields
+  async validateFields(value?: string): Promise<ValidationError[]> {
+    if (value === undefined) return [];
 
     // if string, always in json
+    let parsed: unknown;
     try {
-      JSON.parse(value);
-      return true;
+      parsed = JSON.parse(value);
     } catch (e) {
-      return false;
+      return [{field: '', message: `Invalid JSON: ${e.message}`}];
     }
+    return this.schema ? validateValue(this.schema, parsed) : [];
+  }
+
+  // record time spent on work done outside of run, e.g: on user actions
+  protected recordDuration(duration: number) {
+    pushCapped(this.stats.durations, duration);
+    this.api.statsChanged();
+  }
+
+  // record failures of work done outside of run
+  protected recordFailure(error: Error) {
+    debug(error);
+    pushCapped(this.stats.failures, error);
+    this.api.statsChanged();
   }
 
   // format value before save, but always store as string
@@ -90,6 +143,11 @@ export class Alfred {
   skipSync = false;
 
   private settings: Settings = {};
+  private active = new Set<Feature>();
+  private initialized = new Set<Feature>();
+
+  // notified when stats of any feature changed
+  private statsListener?: () => void;
 
   constructor() {
     if (ALFRED_INSTANCE) {
@@ -101,8 +159,10 @@ export class Alfred {
   /**
    * Update settings of alfred, for features that changed settings, will
    * re-run.
+   *
+   * Resolves once they ran, failures are only logged.
    */
-  setSettings(settings: Settings, noRun = false) {
+  setSettings(settings: Settings, noRun = false): Promise<void> {
     this.settings = settings;
     const featuresToRun = new Set<Feature>();
 
@@ -136,30 +196,149 @@ export class Alfred {
     });
 
     if (featuresToRun.size && !noRun) {
-      this.run([...featuresToRun]).catch(e => debug(e));
+      return this.run([...featuresToRun]).catch(e => debug(e));
     }
+    return Promise.resolve();
+  }
+
+  /** settings currently applied */
+  getSettings(): Settings {
+    return {...this.settings};
   }
 
+  /**
+   * Enable or disable a feature on this page only, synced settings are
+   * skipped from now on.
+   */
+  setFeatureEnabled(name: string, enabled: boolean) {
+    if (!Alfred.features.has(name)) return;
+    this.skipSync = true;
+    this.setSettings(
+        {...this.settings, [name]: {...this.settings[name], enabled}});
+  }
+
+  /** listen on changes of stats, e.g: to report them */
+  onStatsChange(listener: () => void) {
+    this.statsListener = listener;
+  }
+
+  statsChanged() {
+    if (this.statsListener) this.statsListener();
+  }
+
+  /**
+   * All features by priority, dependencies always come before features
+   * depending on them.
+   */
   get features() {
-    return Array.from(Alfred.features.values())
-        .sort((fa, fb) => fa.priority - fb.priority);
+    const byPriority = Array.from(Alfred.features.values())
+                           .sort((fa, fb) => fa.priority - fb.priority);
+    const sorted: Feature[] = [];
+    const visiting = new Set<Feature>();
+    const visit = (feature: Feature) => {
+      if (sorted.includes(feature)) return;
+      if (visiting.has(feature)) {
+        console.error('Circular feature dependencies:', feature.name);
+        return;
+      }
+      visiting.add(feature);
+      feature.dependencies.forEach(name => {
+        const dependency = Alfred.features.get(name);
+        if (dependency) visit(dependency);
+      });
+      visiting.delete(feature);
+      sorted.push(feature);
+    };
+    byPriority.forEach(visit);
+    return sorted;
+  }
+
+  isActive(feature: Feature) {
+    return this.active.has(feature);
+  }
+
+  // the features and everything depending on them, directly or not
+  private withDependents(features: Feature[]) {
+    const result = new Set(features);
+    this.features.forEach(feature => {
+      if (feature.dependencies.some(
+              name => [...result].some(f => f.name === name))) {
+        result.add(feature);
+      }
+    });
+    return this.features.filter(feature => result.has(feature));
   }
 
+  /**
+   * Deactivate and activate features again, along with features depending on
+   * them.
+   */
   async run(features = this.features) {
-    for (const feature of features) {
-      // clean up in case feature was enabled, we wait for clean up up to 5s
+    const toRun = this.withDependents(features);
+    // dependents go first, they may rely on their dependencies to clean up
+    for (const feature of [...toRun].reverse()) {
+      await this.deactivate(feature);
+    }
+    for (const feature of toRun) {
+      await this.activate(feature);
+    }
+    this.statsChanged();
+  }
+
+  /**
+   * Url changed without a page load, features not handling it in place run
+   * again.
+   */
+  async navigate(event: NavigationEvent) {
+    debug('navigated: ', event);
+    const toRun: Feature[] = [];
+    for (const feature of this.features) {
       try {
-        await waitFor(feature.cleanup(), 5 * 1000);
-        if (!feature.enabled) continue;
-        debug('running enabled feature: ', feature.name, feature.stats);
-        if (await feature.shouldRun()) {
-          feature.stats.lastRunTime = Date.now();
-          feature.stats.runTimes++;
-          await feature.run();
+        if (this.isActive(feature) && await feature.onNavigate(event)) {
+          continue;
         }
       } catch (e) {
-        feature.stats.failures.push(e);
+        pushCapped(feature.stats.failures, e);
       }
+      toRun.push(feature);
+    }
+    if (toRun.length) await this.run(toRun);
+  }
+
+  private async deactivate(feature: Feature) {
+    // we wait for clean up up to 5s
+    try {
+      await waitFor(feature.deactivate(), 5 * 1000);
+    } catch (e) {
+      pushCapped(feature.stats.failures, e);
+    }
+    this.active.delete(feature);
+  }
+
+  private async activate(feature: Feature) {
+    if (!feature.enabled) return;
+    const missing = feature.dependencies.filter(name => {
+      const dependency = Alfred.features.get(name);
+      return !dependency || !this.isActive(dependency);
+    });
+    if (missing.length) {
+      debug('skip feature with inactive dependencies: ', feature.name, missing);
+      return;
+    }
+
+    try {
+      debug('running enabled feature: ', feature.name, feature.stats);
+      if (!await feature.shouldRun()) return;
+      if (!this.initialized.has(feature)) {
+        await feature.init();
+        this.initialized.add(feature);
+      }
+      feature.stats.lastRunTime = Date.now();
+      feature.stats.runTimes++;
+      await feature.activate();
+      this.active.add(feature);
+    } catch (e) {
+      pushCapped(feature.stats.failures, e);
     }
   }
 }
@@ -0,0 +1,161 @@
+import {HIGHLIGHTER_NAME} from './highlighter/config';
+import {Message} from './messages';
+import {featureVersion} from './migrations';
+import {fakeChrome} from './testing/fake-chrome';
+import {Command, EventNames, Settings} from './types';
+
+const TAB = {id: 7} as chrome.tabs.Tab;
+
+// message from a frame of the tab, resolves with the reply
+function fromFrame(frameId: number, message: Message) {
+  return new Promise<{response?: unknown, error?: unknown}>(resolve => {
+    fakeChrome().dispatch(
+        message, {id: 'alfred', tab: TAB, frameId},
+        reply => resolve(reply as {}));
+  });
+}
+
+describe('background', () => {
+  // listeners are added to the chrome installed for each test
+  beforeEach(() => {
+    jest.isolateModules(() => {
+      jest.requireActual('./background');
+    });
+  });
+
+  it('relays terms to all frames of the tab it came from', async () => {
+    await fromFrame(2, {
+      eventName: EventNames.RELAY_TERM_REQUEST,
+      term: 'needle',
+      source: 'token',
+    });
+
+    expect(fakeChrome().tabMessages).toEqual([{
+      tabId: 7,
+      frameId: undefined,
+      message: {
+        eventName: EventNames.HIGHLIGHT_TERM_REQUEST,
+        term: 'needle',
+        source: 'token',
+      },
+    }]);
+  });
+
+  it('sums matches of nested frames on the badge', async () => {
+    const report = (frameId: number, count: number) => fromFrame(frameId, {
+      eventName: EventNames.REPORT_MATCHES_REQUEST,
+      term: 'needle',
+      count,
+    });
+    await report(0, 3);
+    await report(1, 4);
+    // a frame nested in frame 1
+    await report(5, 2);
+    expect(fakeChrome().badges.get(7)).toBe('9');
+
+    await report(1, 0);
+    expect(fakeChrome().badges.get(7)).toBe('5');
+
+    const {response} = await fromFrame(0, {
+      eventName: EventNames.TAB_MATCHES_REQUEST,
+      tabId: 7,
+    });
+    expect(response).toEqual({term: 'needle', count: 5});
+  });
+
+  it('merges updated settings and sends them to every tab', async () => {
+    const stored: Settings = {
+      'Feature Toggles': {enabled: false},
+      [HIGHLIGHTER_NAME]: {
+        enabled: true,
+        value: '{}',
+        version: featureVersion(HIGHLIGHTER_NAME),
+      },
+    };
+    fakeChrome().storage.sync.data = {settings: stored};
+
+    const {response} = await fromFrame(0, {
+      eventName: EventNames.UPDATE_SETTINGS_REQUEST,
+      settings: {'Feature Toggles': {enabled: true}},
+    });
+
+    const expected = {...stored, 'Feature Toggles': {enabled: true}};
+    expect(response).toEqual(expected);
+    expect(fakeChrome().storage.sync.data).toEqual({settings: expected});
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(fakeChrome().tabMessages.map(({message}) => message)).toEqual([
+      {eventName: EventNames.SYNC_SETTINGS_RESPONSE, settings: expected}
+    ]);
+  });
+
+  it('adds menu items for commands', async () => {
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(fakeChrome().menuItems).toEqual([
+      Command.HIGHLIGHT_SELECTION, Command.CLEAR_HIGHLIGHTS, Command.PIN_TERM,
+      Command.TOGGLE_SITE, Command.OPEN_SEARCH
+    ]);
+  });
+
+  it('runs menu commands in the frame the menu was opened in', () => {
+    fakeChrome().contextMenus.onClicked.listeners[0](
+        {menuItemId: Command.PIN_TERM, frameId: 3, selectionText: 'needle'},
+        TAB);
+
+    expect(fakeChrome().tabMessages).toEqual([{
+      tabId: 7,
+      frameId: 3,
+      message: {
+        eventName: EventNames.RUN_COMMAND_REQUEST,
+        command: Command.PIN_TERM,
+        text: 'needle',
+      },
+    }]);
+  });
+
+  it('runs keyboard commands in all frames of the active tab', async () => {
+    const {onCommand} = fakeChrome().commands;
+    onCommand.listeners[0](Command.CLEAR_HIGHLIGHTS);
+    onCommand.listeners[0](Command.SHOW_FEATURE_TOGGLES);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(fakeChrome().tabMessages.map(({message, frameId}) => ({
+      command: (message as {command: Command}).command,
+      frameId,
+    }))).toEqual([
+      {command: Command.CLEAR_HIGHLIGHTS, frameId: undefined},
+      // the panel is only shown in the top frame
+      {command: Command.SHOW_FEATURE_TOGGLES, frameId: 0},
+    ]);
+  });
+
+  it('toggles the highlighter on the site of the active tab', async () => {
+    const toggle = async () => {
+      fakeChrome().commands.onCommand.listeners[0](Command.TOGGLE_SITE);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      const {settings} = fakeChrome().storage.sync.data as {settings: Settings};
+      return JSON.parse(settings[HIGHLIGHTER_NAME].value!);
+    };
+
+    const config = await toggle();
+    expect(config.excludeUrlPatterns).toEqual(['^https?://localhost/']);
+    // other options keep their defaults
+    expect(config.minCharSize).toBe(3);
+    expect((await toggle()).excludeUrlPatterns).toEqual([]);
+  });
+
+  it('toggles the highlighter on the site of the popup', async () => {
+    const toggle = async () => {
+      const {response} = await fromFrame(0, {
+        eventName: EventNames.TOGGLE_SITE_REQUEST,
+        url: 'https://example.com/page',
+      });
+      const settings = response as Settings;
+      return JSON.parse(settings[HIGHLIGHTER_NAME].value!);
+    };
+
+    const pattern = '^https?://example\\.com/';
+    expect((await toggle()).excludeUrlPatterns).toEqual([pattern]);
+    expect((await toggle()).excludeUrlPatterns).toEqual([]);
+  });
+});
@@ -1,63 +1,172 @@
-import {EventNames, Settings} from './types';
-
-function notifyAll(message: {}) {
-  chrome.tabs.query({}, tabs => {
-    tabs.forEach(tab => {
-      if (!tab || !tab.id) return;
-      chrome.tabs.sendMessage(tab.id, message);
-    });
+import {COMMANDS} from './commands';
+import {Diagnostics, mergeReport} from './diagnostics';
+import {HIGHLIGHT_CONFIG_SCHEMA, HighlightConfig, HIGHLIGHTER_NAME, hostExcludePattern} from './highlighter/config';
+import {listen, Message, sendToTab} from './messages';
+import {featureVersion} from './migrations';
+import {platform, TabInfo} from './platform';
+import {schemaDefaults} from './schema';
+import {SettingsStore} from './settings-store';
+import {Command, EventNames, MatchesSummary} from './types';
+import {debug} from './utils';
+
+// tell every tab, content scripts not loaded there yet are skipped
+function notifyAll(message: Message) {
+  platform()
+      .queryTabs()
+      .then(tabs => tabs.forEach(tab => {
+        if (!tab || !tab.id) return;
+        sendToTab(tab.id, message).catch(e => debug(e));
+      }))
+      .catch(e => debug(e));
+}
+
+const store = new SettingsStore(
+    settings =>
+        notifyAll({eventName: EventNames.SYNC_SETTINGS_RESPONSE, settings}));
+
+// reports are merged one at a time so concurrent ones are not lost
+let pendingDiagnostics = Promise.resolve();
+
+function updateDiagnostics(update: (diagnostics: Diagnostics) => Diagnostics) {
+  pendingDiagnostics = pendingDiagnostics.then(async () => {
+    const diagnostics =
+        await platform().local.get<Diagnostics>('diagnostics');
+    await platform().local.set('diagnostics', update(diagnostics || {}));
   });
+  return pendingDiagnostics;
+}
+
+function getDiagnostics() {
+  return pendingDiagnostics.then(
+      async () =>
+          (await platform().local.get<Diagnostics>('diagnostics')) || {});
+}
+
+// matches in every frame, by tab
+const tabMatches = new Map<number, Map<number, MatchesSummary>>();
+
+function summarizeMatches(tabId: number): MatchesSummary {
+  const frames = Array.from((tabMatches.get(tabId) || new Map()).values());
+  // the term of the frame with most matches, frames usually share it
+  const top = frames.reduce(
+      (best, frame) => frame.count > best.count ? frame : best,
+      {term: '', count: 0});
+  const count = frames.reduce((sum, frame) => sum + frame.count, 0);
+  return {term: top.term, count};
+}
+
+function updateBadge(tabId: number) {
+  const {count} = summarizeMatches(tabId);
+  chrome.browserAction.setBadgeText(
+      {tabId, text: count ? count > 999 ? '999+' : String(count) : ''});
 }
 
-function notifyActiveTab(message: {}) {
-  chrome.tabs.query({active: true, currentWindow: true}, tabs => {
-    const currentTab = tabs && tabs[0];
-    if (!currentTab || !currentTab.id) return;
-    chrome.tabs.sendMessage(currentTab.id, message);
+// matches are gone once the tab loads another page or is closed
+chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+  if (changeInfo.status !== 'loading' || !tabMatches.has(tabId)) return;
+  tabMatches.delete(tabId);
+  updateBadge(tabId);
+});
+chrome.tabs.onRemoved.addListener(tabId => tabMatches.delete(tabId));
+
+// Listen on events from content scripts and the option page, each gets the
+// response back to the frame it was sent from
+listen({
+  ...store.handlers(),
+  // record stats collected from all content scripts
+  [EventNames.REPORT_STATS_REQUEST]: async request => {
+    await updateDiagnostics(
+        diagnostics => mergeReport(diagnostics, request.report));
+  },
+  [EventNames.DIAGNOSTICS_REQUEST]: () => getDiagnostics(),
+  [EventNames.CLEAR_DIAGNOSTICS_REQUEST]: async () => {
+    await updateDiagnostics(() => ({}));
+  },
+  [EventNames.REPORT_MATCHES_REQUEST]: (request, sender) => {
+    if (!sender.tab || sender.tab.id === undefined) return;
+    const tabId = sender.tab.id;
+    const frames = tabMatches.get(tabId) || new Map<number, MatchesSummary>();
+    frames.set(sender.frameId || 0, {term: request.term, count: request.count});
+    tabMatches.set(tabId, frames);
+    updateBadge(tabId);
+  },
+  [EventNames.TAB_MATCHES_REQUEST]: request =>
+      summarizeMatches(request.tabId),
+  [EventNames.TOGGLE_SITE_REQUEST]: request => toggleSite(request.url),
+  // share the term with all frames of the tab, the source frame ignores it
+  [EventNames.RELAY_TERM_REQUEST]: (request, sender) => {
+    if (!sender.tab || sender.tab.id === undefined) return;
+    sendToTab(sender.tab.id, {
+      eventName: EventNames.HIGHLIGHT_TERM_REQUEST,
+      term: request.term,
+      source: request.source,
+    }).catch(e => debug(e));
+  },
+});
+
+// disable the highlighter on the host of the url, or enable it again
+async function toggleSite(url: string) {
+  const {host} = new URL(url);
+  if (!host) return store.get();
+  const setting = (await store.get())[HIGHLIGHTER_NAME] || {enabled: true};
+  const config: HighlightConfig = {
+    ...schemaDefaults(HIGHLIGHT_CONFIG_SCHEMA),
+    ...(setting.value ? JSON.parse(setting.value) : {}),
+  };
+  const pattern = hostExcludePattern(host);
+  const patterns = config.excludeUrlPatterns || [];
+  config.excludeUrlPatterns = patterns.includes(pattern) ?
+      patterns.filter(p => p !== pattern) :
+      [...patterns, pattern];
+  return store.update({
+    [HIGHLIGHTER_NAME]: {
+      enabled: setting.enabled,
+      value: JSON.stringify(config, null, 2),
+      version: featureVersion(HIGHLIGHTER_NAME),
+    },
   });
 }
 
-// Listen on events from content scripts
-chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
-  const tab = sender.tab;
-  switch (request.eventName) {
-    case EventNames.SYNC_SETTINGS_REQUEST:
-      chrome.storage.sync.get(['settings'], result => {
-        // send to all tabs asynchronously so they can reload with latest
-        // settings
-        notifyAll({
-          eventName: EventNames.SYNC_SETTINGS_RESPONSE,
-          settings: (result['settings'] || {}) as Settings
-        });
-      });
-      break;
-    // update settings
-    case EventNames.UPDATE_SETTINGS_REQUEST:
-      if (!request.settings) break;
-      chrome.storage.sync.get(['settings'], result => {
-        const settings = (result['settings'] || {}) as Settings;
-        // merge in and store
-        Object.keys(request.settings).forEach(featureName => {
-          settings[featureName] = Object.assign(
-              {}, settings[featureName], request.settings[featureName]);
-        });
-
-        // now update and notify
-        chrome.storage.sync.set({settings}, () => {
-          notifyAll({eventName: EventNames.SYNC_SETTINGS_RESPONSE, settings});
-        });
-      });
-      break;
-    case EventNames.RESETE_SETTINGS_REQUEST:
-      chrome.storage.sync.clear(() => {
-        // now update and notify
-        notifyAll({eventName: EventNames.SYNC_SETTINGS_RESPONSE, settings: {}});
-      });
+// run a command in the tab, in all frames unless frameId is given
+async function runCommand(
+    command: Command, tab: TabInfo, frameId?: number, text?: string) {
+  if (tab.id === undefined) return;
+  switch (command) {
+    case Command.TOGGLE_SITE:
+      if (tab.url) await toggleSite(tab.url);
+      return;
+    case Command.SHOW_FEATURE_TOGGLES:
+    case Command.OPEN_SEARCH:
+      // panels are shown in the top frame only
+      frameId = 0;
       break;
     default:
       break;
   }
-  return true;
+  await sendToTab(
+      tab.id, {eventName: EventNames.RUN_COMMAND_REQUEST, command, text},
+      frameId);
+}
+
+chrome.commands.onCommand.addListener(command => {
+  platform()
+      .queryTabs(true)
+      .then(([tab]) => tab && runCommand(command as Command, tab))
+      .catch(e => debug(e));
+});
+
+// commands with a menu item, sent to the frame the menu was opened in
+chrome.contextMenus.removeAll(() => {
+  COMMANDS.forEach(({command, menuTitle, menuContexts}) => {
+    if (!menuTitle) return;
+    chrome.contextMenus.create(
+        {id: command, title: menuTitle, contexts: menuContexts});
+  });
 });
 
-// record stats collected from all content scripts
\ No newline at end of file
+chrome.contextMenus.onClicked.addListener((info, tab) => {
+  const command = COMMANDS.find(({command}) => command === info.menuItemId);
+  if (!command || !tab) return;
+  runCommand(command.command, tab, info.frameId, info.selectionText)
+      .catch(e => debug(e));
+});
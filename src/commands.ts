@@ -0,0 +1,54 @@
+import {Command} from './types';
+
+/** How a command is offered besides its keyboard shortcut. */
+export interface CommandInfo {
+  command: Command;
+  description: string;
+  // title of its context menu item, `%s` is the selection, no item if unset
+  menuTitle?: string;
+  menuContexts?: string[];
+  // default shortcut, `manifest.json` suggests the same keys to the browser
+  shortcut?: string;
+}
+
+/** All commands, in the order they are listed. */
+export const COMMANDS: CommandInfo[] = [
+  {
+    command: Command.HIGHLIGHT_SELECTION,
+    description: 'Highlight the selection',
+    menuTitle: 'Highlight "%s"',
+    menuContexts: ['selection'],
+    shortcut: 'Alt+Shift+KeyH',
+  },
+  {
+    command: Command.CLEAR_HIGHLIGHTS,
+    description: 'Clear highlights',
+    menuTitle: 'Clear highlights',
+    menuContexts: ['page', 'selection'],
+    shortcut: 'Alt+Shift+KeyX',
+  },
+  {
+    command: Command.PIN_TERM,
+    description: 'Pin or unpin the selection',
+    menuTitle: 'Pin / unpin highlight for "%s"',
+    menuContexts: ['selection'],
+    shortcut: 'Alt+Shift+KeyP',
+  },
+  {
+    command: Command.TOGGLE_SITE,
+    description: 'Toggle the highlighter on this site',
+    menuTitle: 'Toggle highlighter on this site',
+    menuContexts: ['page'],
+  },
+  {
+    command: Command.OPEN_SEARCH,
+    description: 'Search and highlight a term',
+    menuTitle: 'Search and highlight',
+    menuContexts: ['page'],
+  },
+  {
+    command: Command.SHOW_FEATURE_TOGGLES,
+    description: 'Show feature toggles',
+    shortcut: 'Alt+Shift+KeyA',
+  },
+];
@@ -1,33 +1,40 @@
 import './features';
 
 import {alfred} from './api';
+import {takeStatsReport} from './diagnostics';
+import {listen, send} from './messages';
+import {NavigationWatcher} from './navigation';
 import {EventNames} from './types';
-import {debug, intervalManager} from './utils';
+import {debounce, debug} from './utils';
 
-// listen on settings back when ready and changed
-chrome.runtime.onMessage.addListener(request => {
-  if (request.eventName === EventNames.SYNC_SETTINGS_RESPONSE) {
+// listen on settings when changed, and on the popup
+listen({
+  [EventNames.SYNC_SETTINGS_RESPONSE]: request => {
     if (alfred.skipSync) return;
 
     alfred.setSettings(request.settings);
-  }
+  },
+  [EventNames.TAB_FEATURES_REQUEST]: () => alfred.features.map(
+      ({name, description, enabled}) => ({name, description, enabled})),
+  [EventNames.TOGGLE_FEATURE_REQUEST]: request =>
+      alfred.setFeatureEnabled(request.name, request.enabled),
 });
 
-// ask to sync the settings
-chrome.runtime.sendMessage({eventName: EventNames.SYNC_SETTINGS_REQUEST});
-
-let curLocation = location.href;
+// ask for the settings
+send({eventName: EventNames.SYNC_SETTINGS_REQUEST})
+    .then(settings => {
+      if (!alfred.skipSync) alfred.setSettings(settings);
+    })
+    .catch(e => debug(e));
 
-// run alfred again when location changed
-intervalManager.add({
-  name: 'location change listener',
-  interval: 2000,
-  run: async () => {
-    if (location.href === curLocation) return;
-    curLocation = location.href;
+// report stats to background in batches
+alfred.onStatsChange(debounce(() => {
+  const report = takeStatsReport(location.host, alfred.features);
+  if (!report) return;
+  send({eventName: EventNames.REPORT_STATS_REQUEST, report})
+      .catch(e => debug(e));
+}, 1000));
 
-    // TODO(taoalpha): maybe support hard-run and soft-run ? since sometimes
-    // location change may not need a complete re-run
-    return alfred.run().catch(e => debug(e));
-  },
-});
\ No newline at end of file
+// let features handle location changes, the ones that can't run again
+new NavigationWatcher(event => alfred.navigate(event).catch(e => debug(e)))
+    .start();
\ No newline at end of file
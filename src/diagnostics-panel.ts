@@ -0,0 +1,129 @@
+import {css, customElement, html, LitElement, property} from 'lit-element';
+
+import {averageDuration, Diagnostics, FeatureDiagnostics} from './diagnostics';
+import {send} from './messages';
+import {EventNames} from './types';
+import {debug} from './utils';
+
+function formatTime(time?: number) {
+  return time ? new Date(time).toLocaleString() : 'never';
+}
+
+function formatDuration(durations: number[]) {
+  const average = averageDuration(durations);
+  return average === undefined ? '-' : `${average.toFixed(1)} ms`;
+}
+
+/**
+ * AlfredDiagnostics component, shows stats and failures of features reported
+ * by all tabs.
+ */
+@customElement('alfred-diagnostics')
+export class AlfredDiagnostics extends LitElement {
+  @property({type: Object, attribute: false}) diagnostics?: Diagnostics;
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.refresh();
+  }
+
+  refresh() {
+    send({eventName: EventNames.DIAGNOSTICS_REQUEST})
+        .then(diagnostics => this.diagnostics = diagnostics)
+        .catch(e => debug(e));
+  }
+
+  clear() {
+    send({eventName: EventNames.CLEAR_DIAGNOSTICS_REQUEST})
+        .then(() => this.diagnostics = {})
+        .catch(e => debug(e));
+  }
+
+  private getFeatureTemplate(name: string, feature: FeatureDiagnostics) {
+    const sites = Object.keys(feature.sites).reverse();
+    return html`
+        <h5>${name}</h5>
+        <p>
+          Ran ${feature.runTimes} times, last on
+          ${formatTime(feature.lastRunTime)}, average time
+          ${formatDuration(feature.durations)}.
+        </p>
+        <details>
+          <summary>${sites.length} sites</summary>
+          <table>
+            <tr>
+              <th>site</th>
+              <th>runs</th>
+              <th>failures</th>
+              <th>last run</th>
+            </tr>
+            ${sites.map(site => html`<tr>
+              <td>${site}</td>
+              <td>${feature.sites[site].runTimes}</td>
+              <td>${feature.sites[site].failures}</td>
+              <td>${formatTime(feature.sites[site].lastRunTime)}</td>
+            </tr>`)}
+          </table>
+        </details>
+        ${feature.failures.length ? html`
+          <ul class="failures">
+            ${feature.failures.slice().reverse().map(failure => html`<li>
+              <details>
+                <summary>
+                  ${formatTime(failure.time)} on ${failure.site}:
+                  ${failure.name}: ${failure.message}
+                </summary>
+                <pre>${failure.stack || ''}</pre>
+              </details>
+            </li>`)}
+          </ul>` : ''}
+      `;
+  }
+
+  render() {
+    const diagnostics = this.diagnostics;
+    const names = diagnostics ? Object.keys(diagnostics) : [];
+    return html`
+        <h4>Diagnostics</h4>
+        <button @click=${this.refresh}>refresh</button>
+        <button @click=${this.clear}>clear</button>
+        ${!diagnostics ? html`<p>loading...</p>` : ''}
+        ${diagnostics && !names.length ? html`<p>Nothing reported yet.</p>` :
+                                         ''}
+        ${names.map(name => this.getFeatureTemplate(name, diagnostics![name]))}
+      `;
+  }
+
+  static get styles() {
+    return css`
+        :host {
+          display: block;
+          border-radius: 4px;
+          box-shadow: 0 2px 1px -1px rgba(0, 0, 0, 0.2),0 1px 1px 0 rgba(0, 0, 0, 0.14),0 1px 3px 0 rgba(0,0,0,.12);
+          box-sizing: border-box;
+          width: 100%;
+          padding: 15px;
+          margin-bottom: 10px;
+        }
+        table {
+          margin: 5px 0;
+          border-collapse: collapse;
+        }
+        th, td {
+          padding: 3px 8px;
+          border: 1px solid #ddd;
+          text-align: left;
+        }
+        .failures {
+          color: #d93025;
+          padding-left: 20px;
+        }
+        pre {
+          color: #333;
+          background: #f1f1f1;
+          padding: 10px;
+          overflow: auto;
+        }
+        `;
+  }
+}
@@ -0,0 +1,58 @@
+import {Diagnostics, mergeReport, takeStatsReport} from './diagnostics';
+import {FeatureStats, StatsReport} from './types';
+
+describe('takeStatsReport', () => {
+  it('reports new stats once and takes them out', () => {
+    const stats: FeatureStats = {
+      runTimes: 2,
+      failures: [new Error('boom')],
+      durations: [5, 7],
+    };
+    const features = [{name: 'Report Once', stats}];
+
+    const report = takeStatsReport('example.com', features)!;
+    expect(report.features['Report Once']).toMatchObject({
+      runTimes: 2,
+      failures: [{name: 'Error', message: 'boom'}],
+      durations: [5, 7],
+    });
+    expect(stats.failures).toEqual([]);
+    expect(stats.durations).toEqual([]);
+    expect(takeStatsReport('example.com', features)).toBeUndefined();
+
+    stats.runTimes++;
+    stats.durations.push(3);
+    expect(takeStatsReport('example.com', features)!.features['Report Once'])
+        .toMatchObject({runTimes: 1, failures: [], durations: [3]});
+  });
+});
+
+describe('mergeReport', () => {
+  const report = (site: string, durations: number[]): StatsReport => ({
+    site,
+    features: {
+      Feature: {
+        runTimes: 1,
+        failures: [{name: 'Error', message: site}],
+        durations,
+      },
+    },
+  });
+
+  it('keeps a bounded history per feature', () => {
+    const diagnostics: Diagnostics = {};
+    for (let i = 0; i < 100; i++) {
+      mergeReport(diagnostics, report(`site-${i}.com`, [i, i, i]));
+    }
+
+    const feature = diagnostics['Feature'];
+    expect(feature.runTimes).toBe(100);
+    expect(feature.failures.length).toBe(50);
+    expect(feature.failures[49].message).toBe('site-99.com');
+    expect(feature.durations.length).toBe(200);
+    // the least recently reported sites are dropped
+    const sites = Object.keys(feature.sites);
+    expect(sites.length).toBe(50);
+    expect(sites[0]).toBe('site-50.com');
+  });
+});
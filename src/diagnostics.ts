@@ -0,0 +1,113 @@
+import {FeatureStats, SerializedError, StatsReport} from './types';
+
+/** A failure reported by a content script. */
+export interface FailureRecord extends SerializedError {
+  time: number;
+  site: string;
+}
+
+/** Stats of a feature on a single site. */
+export interface SiteStats {
+  runTimes: number;
+  failures: number;
+  lastRunTime?: number;
+}
+
+/**
+ * Stats of a feature aggregated from all content scripts.
+ */
+export interface FeatureDiagnostics {
+  runTimes: number;
+  lastRunTime?: number;
+  // most recent ones only
+  failures: FailureRecord[];
+  durations: number[];
+  sites: {[site: string]: SiteStats};
+}
+
+/** Diagnostics by feature name. */
+export interface Diagnostics {
+  [featureName: string]: FeatureDiagnostics;
+}
+
+// bounds of the history kept per feature
+const MAX_FAILURES = 50;
+const MAX_DURATIONS = 200;
+const MAX_SITES = 50;
+
+export function serializeError(error: unknown): SerializedError {
+  if (error instanceof Error) {
+    return {name: error.name, message: error.message, stack: error.stack};
+  }
+  return {name: 'Error', message: String(error)};
+}
+
+// run times already reported, by feature name
+const reportedRunTimes = new Map<string, number>();
+
+/**
+ * Stats of features that changed since the last call, undefined if none.
+ *
+ * Reported failures and durations are taken out of the stats.
+ */
+export function takeStatsReport(
+    site: string, features: Array<{name: string, stats: FeatureStats}>) {
+  const report: StatsReport = {site, features: {}};
+  features.forEach(({name, stats}) => {
+    const lastRunTimes = reportedRunTimes.get(name) || 0;
+    if (stats.runTimes === lastRunTimes && !stats.failures.length &&
+        !stats.durations.length) {
+      return;
+    }
+    report.features[name] = {
+      runTimes: stats.runTimes - lastRunTimes,
+      lastRunTime: stats.lastRunTime,
+      failures: stats.failures.splice(0).map(serializeError),
+      durations: stats.durations.splice(0),
+    };
+    reportedRunTimes.set(name, stats.runTimes);
+  });
+  return Object.keys(report.features).length ? report : undefined;
+}
+
+/**
+ * Merge a report into the diagnostics, keeping a bounded history.
+ */
+export function mergeReport(
+    diagnostics: Diagnostics, report: StatsReport, time = Date.now()) {
+  Object.keys(report.features).forEach(featureName => {
+    const stats = report.features[featureName];
+    const feature: FeatureDiagnostics = diagnostics[featureName] ||
+        {runTimes: 0, failures: [], durations: [], sites: {}};
+    diagnostics[featureName] = feature;
+
+    feature.runTimes += stats.runTimes;
+    feature.lastRunTime =
+        Math.max(feature.lastRunTime || 0, stats.lastRunTime || 0) ||
+        undefined;
+    const failures = stats.failures.map(
+        failure => ({...failure, time, site: report.site}));
+    feature.failures = feature.failures.concat(failures).slice(-MAX_FAILURES);
+    feature.durations =
+        feature.durations.concat(stats.durations).slice(-MAX_DURATIONS);
+
+    const site: SiteStats =
+        feature.sites[report.site] || {runTimes: 0, failures: 0};
+    site.runTimes += stats.runTimes;
+    site.failures += stats.failures.length;
+    site.lastRunTime = stats.lastRunTime || site.lastRunTime;
+    // the site goes last, so the least recently reported ones are dropped
+    delete feature.sites[report.site];
+    feature.sites[report.site] = site;
+    const sites = Object.keys(feature.sites);
+    sites.slice(0, Math.max(0, sites.length - MAX_SITES))
+        .forEach(name => delete feature.sites[name]);
+  });
+  return diagnostics;
+}
+
+/** average of the durations in ms, undefined if there are none */
+export function averageDuration(durations: number[]) {
+  if (!durations.length) return undefined;
+  return durations.reduce((sum, d) => sum + d, 0) / durations.length;
+}
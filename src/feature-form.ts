@@ -0,0 +1,285 @@
+import {css, customElement, html, LitElement, property} from 'lit-element';
+
+import {FeatureSchema, FieldSchema, ValidationError} from './schema';
+
+/** A parsed feature value. */
+export interface FormValue {
+  [field: string]: unknown;
+}
+
+// normalize any css color to #rrggbb, the only format color inputs accept
+function toHexColor(color: string) {
+  const context = document.createElement('canvas').getContext('2d');
+  if (!context) return '#000000';
+  context.fillStyle = '#000000';
+  context.fillStyle = color;
+  // colors with transparency are returned as rgba()
+  return context.fillStyle.startsWith('#') ? context.fillStyle : '#000000';
+}
+
+const BACKGROUND_COLOR = /background-color\s*:\s*([^;]+)/;
+
+// returns true if the error is on the field or anything nested in it
+function isErrorOf(error: ValidationError, field: string) {
+  return error.field === field || error.field.startsWith(`${field}[`) ||
+      error.field.startsWith(`${field}.`);
+}
+
+/**
+ * AlfredFeatureForm component, renders a control for every field in the
+ * schema of a feature value.
+ */
+@customElement('alfred-feature-form')
+export class AlfredFeatureForm extends LitElement {
+  @property({type: Object, attribute: false}) schema!: FeatureSchema;
+  @property({type: Object, attribute: false}) value!: FormValue;
+  @property({type: Array, attribute: false}) errors: ValidationError[] = [];
+  // fields rendered by a dedicated editor outside of the form
+  @property({type: Array, attribute: false}) skipFields: string[] = [];
+
+  private updateField(field: string, fieldValue: unknown) {
+    this.dispatchEvent(new CustomEvent<FormValue>('value-changed', {
+      detail: {...this.value, [field]: fieldValue},
+      bubbles: true,
+      composed: true,
+    }));
+  }
+
+  private getBooleanTemplate(field: string, value: unknown) {
+    return html`<input
+        type="checkbox"
+        .checked=${!!value}
+        @change=${(e: Event) => this.updateField(
+            field, (e.target as HTMLInputElement).checked)} />`;
+  }
+
+  private getNumberTemplate(
+      field: string, schema: FieldSchema, value: unknown) {
+    return html`<input
+        type="number"
+        min=${schema.min === undefined ? '' : schema.min}
+        max=${schema.max === undefined ? '' : schema.max}
+        .value=${value === undefined ? '' : String(value)}
+        @input=${(e: Event) => {
+          const input = e.target as HTMLInputElement;
+          // keep what was typed, validation reports it if not a number
+          this.updateField(
+              field, input.value === '' ? undefined : input.valueAsNumber);
+        }} />`;
+  }
+
+  private getEnumTemplate(field: string, schema: FieldSchema, value: unknown) {
+    return html`<select
+        @change=${(e: Event) => this.updateField(
+            field, (e.target as HTMLSelectElement).value)}>
+        ${schema.enum!.map(option => html`<option
+            .value=${String(option)}
+            ?selected=${option === value}>${option}</option>`)}
+      </select>`;
+  }
+
+  private getStyleTemplate(field: string, value: unknown) {
+    const style = typeof value === 'string' ? value : '';
+    const match = style.match(BACKGROUND_COLOR);
+    const setColor = (e: Event) => {
+      const color = (e.target as HTMLInputElement).value;
+      const declaration = `background-color: ${color}`;
+      this.updateField(
+          field,
+          match ? style.replace(BACKGROUND_COLOR, declaration) :
+                  `${declaration}; ${style}`.trim());
+    };
+    return html`
+        <input
+          type="color"
+          .value=${toHexColor(match ? match[1].trim() : 'transparent')}
+          @input=${setColor} />
+        <input
+          class="wide"
+          .value=${style}
+          @input=${(e: Event) => this.updateField(
+              field, (e.target as HTMLInputElement).value)} />
+        <span class="swatch" style=${style}>Preview</span>
+      `;
+  }
+
+  private getStringTemplate(field: string, value: unknown) {
+    return html`<input
+        class="wide"
+        .value=${typeof value === 'string' ? value : ''}
+        @input=${(e: Event) => this.updateField(
+            field, (e.target as HTMLInputElement).value)} />`;
+  }
+
+  private getChipListTemplate(
+      field: string, schema: FieldSchema, value: unknown) {
+    const items = Array.isArray(value) ? value as string[] : [];
+    const isColor = schema.format === 'color';
+    const add = (input: HTMLInputElement) => {
+      const item = input.value.trim();
+      if (!item || items.includes(item)) return;
+      this.updateField(field, [...items, item]);
+      if (!isColor) input.value = '';
+    };
+    return html`
+        <ul class="chips">
+          ${items.map((item, i) => html`<li>
+            ${isColor ? html`<span class="dot" style="background: ${
+        item}"></span>` : ''}
+            <span>${item}</span>
+            <button
+              title="remove"
+              @click=${() => this.updateField(
+                  field, items.filter((_, j) => j !== i))}>×</button>
+          </li>`)}
+        </ul>
+        <input
+          type=${isColor ? 'color' : 'text'}
+          placeholder="add and press enter"
+          @keydown=${(e: KeyboardEvent) => {
+            if (e.key === 'Enter') add(e.target as HTMLInputElement);
+          }} />
+        ${isColor ? html`<button
+            @click=${(e: Event) => add(
+                (e.target as HTMLElement).previousElementSibling as
+                HTMLInputElement)}>add</button>` : ''}
+      `;
+  }
+
+  // JSON of the field, for nested objects without a dedicated control
+  private getJsonTemplate(field: string, value: unknown) {
+    return html`<textarea
+        .value=${JSON.stringify(value, null, 2)}
+        @change=${(e: Event) => {
+          try {
+            this.updateField(
+                field, JSON.parse((e.target as HTMLTextAreaElement).value));
+          } catch (err) {
+            // keep the old value until it's valid JSON
+          }
+        }}></textarea>`;
+  }
+
+  private getControlTemplate(field: string, schema: FieldSchema) {
+    const value = this.value[field];
+    switch (schema.type) {
+      case 'boolean':
+        return this.getBooleanTemplate(field, value);
+      case 'number':
+        return this.getNumberTemplate(field, schema, value);
+      case 'string':
+        if (schema.enum) return this.getEnumTemplate(field, schema, value);
+        if (schema.format === 'style') {
+          return this.getStyleTemplate(field, value);
+        }
+        return this.getStringTemplate(field, value);
+      case 'string[]':
+        return this.getChipListTemplate(field, schema, value);
+      default:
+        return this.getJsonTemplate(field, value);
+    }
+  }
+
+  private getFieldTemplate(field: string) {
+    const schema = this.schema[field];
+    const errors = this.errors.filter(error => isErrorOf(error, field));
+    return html`
+        <div class="field">
+          <label>
+            <code>${field}</code>
+            ${schema.description ? html`<small>${
+        schema.description}</small>` : ''}
+          </label>
+          <div class="control">${this.getControlTemplate(field, schema)}</div>
+          ${errors.map(error => html`<p class="error">
+            ${error.field !== field ? html`<code>${error.field}</code>: ` : ''}
+            ${error.message}
+          </p>`)}
+        </div>
+      `;
+  }
+
+  render() {
+    const fields = Object.keys(this.schema)
+                       .filter(field => !this.skipFields.includes(field));
+    // errors not tied to a field in the form, e.g: unknown fields
+    const otherErrors = this.errors.filter(
+        error => !fields.some(field => isErrorOf(error, field)));
+    return html`
+        ${fields.map(field => this.getFieldTemplate(field))}
+        ${otherErrors.map(error => html`<p class="error">
+          ${error.field ? html`<code>${error.field}</code>: ` : ''}
+          ${error.message}
+        </p>`)}
+      `;
+  }
+
+  static get styles() {
+    return css`
+        :host {
+          display: block;
+          margin-top: 10px;
+        }
+        .field {
+          padding: 5px 0;
+        }
+        label {
+          display: block;
+        }
+        small {
+          color: #666;
+          margin-left: 5px;
+        }
+        .control {
+          display: flex;
+          align-items: center;
+          flex-wrap: wrap;
+          margin-top: 3px;
+        }
+        input.wide {
+          flex: 1;
+          min-width: 300px;
+        }
+        .swatch {
+          margin-left: 10px;
+          padding: 0 5px;
+        }
+        .chips {
+          display: flex;
+          flex-wrap: wrap;
+          margin: 0;
+          padding: 0;
+        }
+        .chips li {
+          list-style: none;
+          display: flex;
+          align-items: center;
+          margin: 0 5px 5px 0;
+          padding: 0 0 0 8px;
+          border-radius: 12px;
+          background: #e8eaed;
+        }
+        .chips button {
+          border: none;
+          background: none;
+          cursor: pointer;
+        }
+        .dot {
+          display: inline-block;
+          width: 12px;
+          height: 12px;
+          margin-right: 4px;
+          border-radius: 50%;
+        }
+        textarea {
+          min-height: 80px;
+          width: 100%;
+          box-sizing: border-box;
+        }
+        .error {
+          color: #d93025;
+          margin: 3px 0;
+        }
+        `;
+  }
+}
@@ -1,5 +1,9 @@
 import {Alfred, Feature} from '../api';
-import {Settings} from '../types';
+import {listen, send} from '../messages';
+import {featureVersion} from '../migrations';
+import {FieldSchema} from '../schema';
+import {Command, EventNames, Settings} from '../types';
+import {debug, UI_HOST_ATTRIBUTE} from '../utils';
 
 class FeatureToggles extends Feature {
   name = 'Feature Toggles';
@@ -8,23 +12,20 @@ class FeatureToggles extends Feature {
 
   private elId = 'extension-feature-toggles';
 
-  private shortcutKeyHandler = (event: KeyboardEvent) => {
-    if (event.metaKey && event.shiftKey && event.code === 'KeyA') {
-      this.showFeatureToggles();
-    }
-  };
+  // changes made in the panel, by feature name
+  private draft: Settings = {};
+  private message?: HTMLElement;
 
   private showFeatureToggles() {
-    const featureToggleEl = document.getElementById(this.elId);
-    if (featureToggleEl) {
-      featureToggleEl.style.display = 'block';
-      return;
-    }
-    const features = Alfred.features;
+    // always rebuilt, settings may have changed since last shown
+    this.removeFeatureToggles();
+    this.draft = {};
+
     const container = document.createElement('div');
     container.id = this.elId;
+    container.setAttribute(UI_HOST_ATTRIBUTE, '');
     const containerStyle = document.createElement('style');
-    containerStyle.innerHTML = `
+    containerStyle.textContent = `
       :host {
         position: fixed;
         bottom: 20px;
@@ -45,7 +46,7 @@ class FeatureToggles extends Feature {
         display: flex;
         justify-content: space-between;
       }
-      p span {
+      p .close {
         color: blue;
         cursor: pointer;
       }
@@ -53,70 +54,257 @@ class FeatureToggles extends Feature {
         list-style: none;
         padding: 5px;
       }
+      ul ul {
+        padding-left: 20px;
+      }
+      ul ul li {
+        display: flex;
+        justify-content: space-between;
+        padding: 2px 0;
+      }
       button {
-        width: 80px;
         height: 30px;
+        margin-right: 5px;
       }
         `;
     const shadowContainer = container.attachShadow({mode: 'open'});
     shadowContainer.appendChild(containerStyle);
+
     const notice = document.createElement('p');
-    notice.innerHTML = 'Settings updated here are only temporary.';
+    const noticeText = document.createElement('span');
+    noticeText.textContent = this.api.skipSync ?
+        'This tab uses its own settings.' :
+        'This tab uses synced settings.';
     const close = document.createElement('span');
-    close.innerHTML = 'close';
-    close.onclick = () => container.style.display = 'none';
+    close.className = 'close';
+    close.textContent = 'close';
+    close.onclick = () => this.removeFeatureToggles();
+    notice.appendChild(noticeText);
     notice.appendChild(close);
     shadowContainer.appendChild(notice);
-    features.forEach(feature => {
-      shadowContainer.appendChild(this.generateFeatureTemplate(feature));
+
+    const list = document.createElement('ul');
+    this.api.features.forEach(feature => {
+      list.appendChild(this.generateFeatureTemplate(feature));
     });
+    shadowContainer.appendChild(list);
 
+    const applyBtn = document.createElement('button');
+    applyBtn.textContent = 'Apply to this tab';
+    applyBtn.onclick = () => this.applyToTab();
     const saveBtn = document.createElement('button');
-    saveBtn.innerHTML = 'Save';
+    saveBtn.textContent = 'Save globally';
+    saveBtn.onclick = () => this.saveGlobally();
+    shadowContainer.appendChild(applyBtn);
     shadowContainer.appendChild(saveBtn);
+    if (this.api.skipSync) {
+      const revertBtn = document.createElement('button');
+      revertBtn.textContent = 'Use synced settings';
+      revertBtn.onclick = () => this.useSyncedSettings();
+      shadowContainer.appendChild(revertBtn);
+    }
 
-    // bind event
-    saveBtn.onclick = () => {
-      // construct the settings
-      const allFeatures = shadowContainer.querySelectorAll('input');
-      const settings: Settings = {};
-      allFeatures.forEach(feature => {
-        settings[feature.id] = {enabled: feature.checked};
-      });
-
-      // skip sync
-      this.api.skipSync = true;
-
-      // update settings
-      this.api.setSettings(settings);
-    };
+    this.message = document.createElement('p');
+    shadowContainer.appendChild(this.message);
 
     // add it to the page
     document.body.appendChild(container);
   }
 
+  private removeFeatureToggles() {
+    const featureToggleEl = document.getElementById(this.elId);
+    if (featureToggleEl) featureToggleEl.remove();
+    this.message = undefined;
+  }
+
+  private showMessage(text: string) {
+    if (this.message) this.message.textContent = text;
+  }
+
+  // setting of the feature with changes from the panel
+  private draftOf(feature: Feature) {
+    if (!this.draft[feature.name]) {
+      this.draft[feature.name] = feature.hasOwnProperty('value') ?
+          {
+            enabled: feature.enabled,
+            value: feature.value,
+            version: featureVersion(feature.name),
+          } :
+          {enabled: feature.enabled};
+    }
+    return this.draft[feature.name];
+  }
+
+  private updateField(feature: Feature, field: string, fieldValue: unknown) {
+    const setting = this.draftOf(feature);
+    try {
+      const value = JSON.parse(setting.value!);
+      value[field] = fieldValue;
+      setting.value = JSON.stringify(value, null, 2);
+    } catch (e) {
+      this.showMessage(`${feature.name} has an invalid value.`);
+    }
+  }
+
+  // returns false and shows why if any changed value is invalid
+  private async validateDraft() {
+    for (const feature of this.api.features) {
+      const setting = this.draft[feature.name];
+      if (!setting || setting.value === undefined) continue;
+      const errors = await feature.validateFields(setting.value);
+      if (errors.length) {
+        const {field, message} = errors[0];
+        this.showMessage(`${feature.name}: ${field} ${message}`);
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private async applyToTab() {
+    if (!await this.validateDraft()) return;
+    // skip sync so synced settings do not override it
+    this.api.skipSync = true;
+    await this.api.setSettings({...this.api.getSettings(), ...this.draft});
+    this.showFeatureTogglesAgain();
+  }
+
+  // once features ran with new settings, which may have torn the panel down
+  private showFeatureTogglesAgain() {
+    if (this.api.isActive(this)) this.showFeatureToggles();
+  }
+
+  private async saveGlobally() {
+    if (!await this.validateDraft()) return;
+    try {
+      // merged into stored settings by the background
+      const settings = await send({
+        eventName: EventNames.UPDATE_SETTINGS_REQUEST,
+        settings: this.draft,
+      });
+      this.api.skipSync = false;
+      await this.api.setSettings(settings);
+      this.showFeatureTogglesAgain();
+    } catch (e) {
+      debug(e);
+      this.showMessage('Failed to save, try again.');
+    }
+  }
+
+  private async useSyncedSettings() {
+    try {
+      const settings =
+          await send({eventName: EventNames.SYNC_SETTINGS_REQUEST});
+      this.api.skipSync = false;
+      await this.api.setSettings(settings);
+      this.showFeatureTogglesAgain();
+    } catch (e) {
+      debug(e);
+      this.showMessage('Failed to load synced settings, try again.');
+    }
+  }
+
   private generateFeatureTemplate(feature: Feature) {
     const featureItem = document.createElement('li');
-    featureItem.innerHTML = `
-        <input type="checkbox" ${feature.enabled ? 'checked' : ''} id="${
-        feature.name}" />
-        <label for="${feature.name}">${feature.description}</label>
-    `;
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.id = feature.name;
+    checkbox.checked = feature.enabled;
+    checkbox.onchange = () => this.draftOf(feature).enabled = checkbox.checked;
+    const label = document.createElement('label');
+    label.htmlFor = feature.name;
+    label.textContent = feature.description;
+    featureItem.appendChild(checkbox);
+    featureItem.appendChild(label);
+
+    const fields = this.generateQuickFieldsTemplate(feature);
+    if (fields) featureItem.appendChild(fields);
     return featureItem;
   }
 
+  // controls for simple fields, others are edited in the options page
+  private generateQuickFieldsTemplate(feature: Feature) {
+    if (!feature.schema || !feature.quickFields.length) return undefined;
+    let value: {[field: string]: unknown};
+    try {
+      value = JSON.parse(feature.value!);
+    } catch (e) {
+      return undefined;
+    }
+
+    const list = document.createElement('ul');
+    feature.quickFields.forEach(field => {
+      const schema = feature.schema![field];
+      const control = schema && this.generateFieldControl(
+          schema, value[field],
+          fieldValue => this.updateField(feature, field, fieldValue));
+      if (!control) return;
+      const item = document.createElement('li');
+      const label = document.createElement('label');
+      label.textContent = field;
+      label.title = schema.description || '';
+      item.appendChild(label);
+      item.appendChild(control);
+      list.appendChild(item);
+    });
+    return list;
+  }
+
+  private generateFieldControl(
+      schema: FieldSchema, value: unknown,
+      onChange: (value: unknown) => void): HTMLElement|undefined {
+    if (schema.type === 'boolean') {
+      const input = document.createElement('input');
+      input.type = 'checkbox';
+      input.checked = !!value;
+      input.onchange = () => onChange(input.checked);
+      return input;
+    }
+    if (schema.type === 'number') {
+      const input = document.createElement('input');
+      input.type = 'number';
+      input.value = value === undefined ? '' : String(value);
+      input.onchange = () => onChange(input.valueAsNumber);
+      return input;
+    }
+    if (schema.type === 'string' && schema.enum) {
+      const select = document.createElement('select');
+      schema.enum.forEach(option => {
+        const optionEl = document.createElement('option');
+        optionEl.value = optionEl.textContent = String(option);
+        optionEl.selected = option === value;
+        select.appendChild(optionEl);
+      });
+      select.onchange = () => onChange(select.value);
+      return select;
+    }
+    if (schema.type === 'string') {
+      const input = document.createElement('input');
+      input.value = typeof value === 'string' ? value : '';
+      input.onchange = () => onChange(input.value);
+      return input;
+    }
+    return undefined;
+  }
+
   async shouldRun() {
     return true;
   }
 
-  async run() {
-    document.addEventListener('keydown', this.shortcutKeyHandler);
+  async activate() {
+    // shortcut can be changed in the browser, see the option page
+    const stopListening = listen({
+      [EventNames.RUN_COMMAND_REQUEST]: request => {
+        if (request.command === Command.SHOW_FEATURE_TOGGLES) {
+          this.showFeatureToggles();
+        }
+      },
+    });
     this.teardownQueue.push(() => {
-      document.removeEventListener('keydown', this.shortcutKeyHandler);
-      const featureToggleEl = document.getElementById(this.elId);
-      if (featureToggleEl) featureToggleEl.remove();
+      stopListening();
+      this.removeFeatureToggles();
     });
   }
 }
 
-Alfred.registerFeature(FeatureToggles);
+Alfred.registerFeature(FeatureToggles);
\ No newline at end of file
@@ -1,3 +1,4 @@
 // import your features
 import "./feature-toggles";
+import "./page-annotations";
 import "./selection-highlighter";
\ No newline at end of file
@@ -0,0 +1,108 @@
+import './page-annotations';
+
+import {alfred, Alfred} from '../api';
+import {ANNOTATIONS_CONFIG_SCHEMA, ANNOTATIONS_NAME, loadAnnotations, saveAnnotations} from '../highlighter/annotations';
+import {schemaDefaults} from '../schema';
+
+const feature = Alfred.features.get(ANNOTATIONS_NAME)!;
+
+// spans render in jsdom
+async function activate() {
+  const value = {
+    ...schemaDefaults(ANNOTATIONS_CONFIG_SCHEMA),
+    renderer: 'span',
+  };
+  alfred.setSettings(
+      {[ANNOTATIONS_NAME]: {enabled: true, value: JSON.stringify(value)}},
+      true);
+  await alfred.run([feature]);
+}
+
+function select(node: Node, start: number, end: number) {
+  const range = document.createRange();
+  range.setStart(node, start);
+  range.setEnd(node, end);
+  const selection = window.getSelection()!;
+  selection.removeAllRanges();
+  selection.addRange(range);
+}
+
+// returns true if the page took over the key
+function pressShortcut(target: EventTarget) {
+  const event = new KeyboardEvent('keydown', {
+    code: 'KeyA',
+    altKey: true,
+    bubbles: true,
+    cancelable: true,
+  });
+  target.dispatchEvent(event);
+  return event.defaultPrevented;
+}
+
+// text of painted annotations
+function painted() {
+  return Array.from(document.querySelectorAll('span[style]'))
+      .map(span => span.textContent);
+}
+
+describe('PageAnnotations', () => {
+  let prompt: jest.SpyInstance;
+
+  beforeEach(async () => {
+    document.body.innerHTML =
+        '<p id="text">some text to annotate</p><div contenteditable="true">' +
+        'typed text</div>';
+    prompt = jest.spyOn(window, 'prompt').mockReturnValue('a note');
+    await activate();
+  });
+
+  afterEach(async () => {
+    prompt.mockRestore();
+    window.getSelection()!.removeAllRanges();
+    alfred.setSettings({[ANNOTATIONS_NAME]: {enabled: false}}, true);
+    await alfred.run([feature]);
+  });
+
+  it('annotates the selection with the shortcut', async () => {
+    select(document.getElementById('text')!.firstChild!, 5, 9);
+    expect(pressShortcut(document.body)).toBe(true);
+
+    expect(painted()).toEqual(['text']);
+    await new Promise(resolve => setTimeout(resolve));
+    const [annotation] = await loadAnnotations(location.href);
+    expect(annotation.note).toBe('a note');
+    expect(annotation.selector.exact).toBe('text');
+  });
+
+  it('leaves the shortcut to the page without a selection', () => {
+    expect(pressShortcut(document.body)).toBe(false);
+    expect(prompt).not.toHaveBeenCalled();
+  });
+
+  it('leaves the shortcut to editable fields', () => {
+    const editable = document.querySelector('[contenteditable]')!;
+    select(editable.firstChild!, 0, 5);
+    expect(pressShortcut(editable)).toBe(false);
+    expect(prompt).not.toHaveBeenCalled();
+  });
+
+  it('anchors annotations in content added later', async () => {
+    await saveAnnotations(location.href, [{
+      id: 'late',
+      selector:
+          {exact: 'rendered later', prefix: 'text ', suffix: '', start: 0},
+      note: '',
+      color: 'yellow',
+      created: 0,
+    }]);
+    await activate();
+    expect(painted()).toEqual([]);
+
+    const added = document.createElement('p');
+    added.textContent = 'text rendered later';
+    document.body.appendChild(added);
+    // changes are reported in batches
+    await new Promise(resolve => setTimeout(resolve, 400));
+    expect(painted()).toEqual(['rendered later']);
+  });
+});
@@ -0,0 +1,209 @@
+import {Alfred, Feature} from '../api';
+import {Annotation, ANNOTATIONS_CONFIG_SCHEMA, ANNOTATIONS_NAME, AnnotationsConfig, loadAnnotations, saveAnnotations} from '../highlighter/annotations';
+import {AnnotationsPanel} from '../highlighter/annotations-panel';
+import {DEFAULT_PIN_COLORS} from '../highlighter/config';
+import {MutationWatcher} from '../highlighter/mutation-watcher';
+import {createRenderer, HighlightRenderer} from '../highlighter/renderer';
+import {collectTextNodes, compareMatches, Match, TextIndex} from '../highlighter/text-index';
+import {anchorQuote, describeQuote} from '../highlighter/text-quote';
+import {schemaDefaults} from '../schema';
+import {isWithin, matchesShortcut} from '../utils';
+
+class PageAnnotations extends Feature {
+  name = ANNOTATIONS_NAME;
+  description =
+      'Annotate the selection with a note, annotations are saved for the page and restored when it is opened again.';
+  enabled = true;
+  schema = ANNOTATIONS_CONFIG_SCHEMA;
+  value = JSON.stringify(schemaDefaults(ANNOTATIONS_CONFIG_SCHEMA), null, 2);
+  quickFields = ['annotateShortcut'];
+
+  private config: AnnotationsConfig = {};
+  // url annotations are loaded for
+  private url = '';
+  private annotations: Annotation[] = [];
+  // where annotations are on the page, orphaned ones are not in it
+  private anchored = new Map<string, Match>();
+  private renderers = new Map<string, HighlightRenderer>();
+  private panel = new AnnotationsPanel({
+    onSelect: annotation => this.scrollTo(annotation),
+    onEdit: annotation => this.editNote(annotation),
+    onRecolor: (annotation, color) => this.update(annotation, {color}),
+    onRemove: annotation => this.removeAnnotation(annotation),
+  });
+  // orphaned annotations may show up as the page renders more
+  private watcher = new MutationWatcher(roots => this.refresh(roots));
+
+  private shortcutKeyHandler = (event: KeyboardEvent) => {
+    const {annotateShortcut, noHighlightWithin} = this.config;
+    if (!annotateShortcut || !matchesShortcut(event, annotateShortcut)) return;
+    // the keys may type a character, e.g: `å` on mac, only taken over when
+    // there is a selection to annotate outside of editable fields
+    const selection = window.getSelection();
+    if (!selection || selection.isCollapsed || !selection.rangeCount) return;
+    if (isWithin(event.composedPath()[0], noHighlightWithin) ||
+        isWithin(selection.anchorNode, noHighlightWithin)) {
+      return;
+    }
+    event.preventDefault();
+    this.annotateSelection();
+  };
+
+  async shouldRun() {
+    return true;
+  }
+
+  async activate() {
+    this.config = JSON.parse(this.value);
+    document.addEventListener('keydown', this.shortcutKeyHandler);
+    this.teardownQueue.push(() => {
+      document.removeEventListener('keydown', this.shortcutKeyHandler);
+      this.reset();
+    });
+    await this.load();
+  }
+
+  // each page has its own annotations
+  async onNavigate() {
+    this.reset();
+    await this.load();
+    return true;
+  }
+
+  private async load() {
+    const url = location.href;
+    this.url = url;
+    const annotations = await loadAnnotations(url);
+    // navigated again while loading
+    if (this.url !== url) return;
+    this.annotations = annotations;
+    // shadow roots are added as the text walks find them
+    this.watcher.observe(document.body);
+    this.refresh();
+  }
+
+  private reset() {
+    this.watcher.disconnect();
+    this.renderers.forEach(renderer => renderer.clear());
+    this.renderers.clear();
+    this.anchored.clear();
+    this.annotations = [];
+    this.panel.remove();
+  }
+
+  private textNodesUnder(root: Node) {
+    return collectTextNodes(
+        root, this.config.excludeParents,
+        shadowRoot => this.watcher.observeShadowRoot(shadowRoot));
+  }
+
+  private save() {
+    return saveAnnotations(this.url, this.annotations);
+  }
+
+  // drop anchors removed from the page and anchor orphaned annotations
+  // within the roots, only changed ones are searched again as the page
+  // changes
+  private refresh(roots: Node[] = [document.body]) {
+    this.anchored.forEach((match, id) => {
+      if (match.every(range => range.startContainer.isConnected)) return;
+      this.unpaint(id);
+    });
+
+    // text nodes may be merged when spans are removed, use their parents
+    const parents = new Set(roots.map(
+        root => root.nodeType === Node.TEXT_NODE ? root.parentNode : root));
+    parents.forEach(root => {
+      const orphaned =
+          this.annotations.filter(a => !this.anchored.has(a.id));
+      if (!root || !root.isConnected || !orphaned.length) return;
+      const index = new TextIndex(this.textNodesUnder(root));
+      const found: Array<[Annotation, Match]> = [];
+      orphaned.forEach(annotation => {
+        const offsets = anchorQuote(index.text, annotation.selector);
+        if (offsets) found.push([annotation, index.toMatch(...offsets)]);
+      });
+      // paint from the end, spans split the indexed text nodes
+      found.sort(([, a], [, b]) => compareMatches(b, a));
+      found.forEach(([annotation, match]) => this.paint(annotation, match));
+    });
+    this.panel.update(this.annotations, a => this.anchored.has(a.id));
+  }
+
+  private paint(annotation: Annotation, match: Match) {
+    const style = `background-color: ${annotation.color};`;
+    const renderer = createRenderer(
+        this.config.renderer, `page-annotation-${annotation.id}`, style,
+        style);
+    this.watcher.ignore(() => renderer.render(match));
+    this.renderers.set(annotation.id, renderer);
+    this.anchored.set(annotation.id, match);
+  }
+
+  private unpaint(id: string) {
+    const renderer = this.renderers.get(id);
+    if (renderer) this.watcher.ignore(() => renderer.clear());
+    this.renderers.delete(id);
+    this.anchored.delete(id);
+  }
+
+  private annotateSelection() {
+    const selection = window.getSelection();
+    if (!selection || selection.isCollapsed || !selection.rangeCount) return;
+    const index = new TextIndex(this.textNodesUnder(document.body));
+    const offsets = index.fromRange(selection.getRangeAt(0));
+    if (!offsets) return;
+
+    const note = window.prompt('Note for the annotation', '');
+    // cancelled
+    if (note === null) return;
+    const colors = this.config.colors && this.config.colors.length ?
+        this.config.colors :
+        DEFAULT_PIN_COLORS;
+    const annotation: Annotation = {
+      id: `${Date.now().toString(36)}${
+          Math.random().toString(36).slice(2, 6)}`,
+      selector: describeQuote(index.text, ...offsets),
+      note,
+      color: colors[this.annotations.length % colors.length],
+      created: Date.now(),
+    };
+    this.annotations.push(annotation);
+    this.paint(annotation, index.toMatch(...offsets));
+    this.panel.update(this.annotations, a => this.anchored.has(a.id));
+    this.save().catch(e => this.recordFailure(e));
+  }
+
+  private scrollTo(annotation: Annotation) {
+    const match = this.anchored.get(annotation.id);
+    if (!match) return;
+    const container = match[0].startContainer;
+    const element = container.nodeType === Node.ELEMENT_NODE ?
+        container as Element :
+        container.parentElement;
+    if (element) element.scrollIntoView({block: 'center', inline: 'nearest'});
+  }
+
+  private editNote(annotation: Annotation) {
+    const note = window.prompt('Note for the annotation', annotation.note);
+    if (note === null) return;
+    this.update(annotation, {note});
+  }
+
+  private update(annotation: Annotation, changes: Partial<Annotation>) {
+    Object.assign(annotation, changes);
+    // anchored and painted again with the new color
+    this.unpaint(annotation.id);
+    this.refresh();
+    this.save().catch(e => this.recordFailure(e));
+  }
+
+  private removeAnnotation(annotation: Annotation) {
+    this.unpaint(annotation.id);
+    this.annotations = this.annotations.filter(a => a !== annotation);
+    this.panel.update(this.annotations, a => this.anchored.has(a.id));
+    this.save().catch(e => this.recordFailure(e));
+  }
+}
+
+Alfred.registerFeature(PageAnnotations);
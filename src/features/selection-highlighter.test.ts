@@ -0,0 +1,478 @@
+import './selection-highlighter';
+
+import {alfred, Alfred} from '../api';
+import {schemaDefaults} from '../schema';
+import {HIGHLIGHT_CONFIG_SCHEMA, HIGHLIGHTER_NAME} from '../highlighter/config';
+import {platform} from '../platform';
+import {fakeChrome} from '../testing/fake-chrome';
+import {Command, EventNames} from '../types';
+
+// private members exercised by the tests
+interface Highlighter {
+  highlight(): Promise<void>;
+  openSearch(): Promise<void>;
+  highlightText(text: string): Promise<void>;
+  togglePin(text: string): void;
+  resetAll(): void;
+  textNodesUnder(el: Element|ShadowRoot): Text[];
+  annotatedMatches: Range[][];
+}
+
+const feature = Alfred.features.get(HIGHLIGHTER_NAME)!;
+const highlighter = feature as unknown as Highlighter;
+
+// spans render in jsdom, no minimap as it needs layout
+async function activate(config = {}) {
+  const value = {
+    ...schemaDefaults(HIGHLIGHT_CONFIG_SCHEMA),
+    renderer: 'span',
+    showMinimap: false,
+    ...config,
+  };
+  alfred.setSettings(
+      {[HIGHLIGHTER_NAME]: {enabled: true, value: JSON.stringify(value)}},
+      true);
+  await alfred.run([feature]);
+}
+
+function select(node: Node, start: number, end: number) {
+  const range = document.createRange();
+  range.setStart(node, start);
+  range.setEnd(node, end);
+  const selection = window.getSelection()!;
+  selection.removeAllRanges();
+  selection.addRange(range);
+}
+
+// text nodes wrapped by highlights, shadow roots included
+function highlighted(root: Document|ShadowRoot = document) {
+  return Array.from(root.querySelectorAll('span[style]'))
+      .map(span => span.textContent);
+}
+
+// shadow roots are not part of innerHTML, serialize them too
+function snapshot(root: Element|ShadowRoot = document.body): string {
+  const hosts = Array.from(root.querySelectorAll('*'))
+                    .filter(element => !!element.shadowRoot);
+  return root.innerHTML +
+      hosts.map(host => `#shadow(${snapshot(host.shadowRoot!)})`).join('');
+}
+
+const FIXTURE = `
+  <h1>Highlight fixture</h1>
+  <p id="first">needle in a haystack</p>
+  <p id="second">a <b>nee</b>dle split over elements</p>
+  <div id="host"></div>
+  <p id="last">one more needle</p>
+`;
+
+describe('SelectionHighlighter', () => {
+  let html = '';
+
+  beforeEach(async () => {
+    document.body.innerHTML = FIXTURE;
+    const shadow = document.getElementById('host')!.attachShadow({
+      mode: 'open',
+    });
+    shadow.innerHTML = '<p>needle in <i>shadow</i></p>';
+    html = snapshot();
+    await activate();
+  });
+
+  afterEach(async () => {
+    window.getSelection()!.removeAllRanges();
+    alfred.setSettings({[HIGHLIGHTER_NAME]: {enabled: false}}, true);
+    await alfred.run([feature]);
+  });
+
+  it('highlights all occurrences but the selection itself', async () => {
+    select(document.getElementById('first')!.firstChild!, 0, 6);
+    await highlighter.highlight();
+
+    expect(highlighted()).toEqual(['nee', 'dle', 'needle']);
+    expect(highlighted(document.getElementById('host')!.shadowRoot!))
+        .toEqual(['needle']);
+    expect(highlighter.annotatedMatches.length).toBe(3);
+  });
+
+  it('highlights the selection with excludeSelf off', async () => {
+    await activate({excludeSelf: false});
+    select(document.getElementById('first')!.firstChild!, 0, 6);
+    await highlighter.highlight();
+
+    expect(highlighter.annotatedMatches.length).toBe(4);
+    expect(document.querySelector('#first span')!.textContent)
+        .toBe('needle');
+  });
+
+  it('splits the selected text node to highlight the rest of it',
+     async () => {
+       const first = document.getElementById('first')!;
+       first.textContent = 'needle and needle';
+       html = snapshot();
+       select(first.firstChild!, 0, 6);
+       await highlighter.highlight();
+
+       expect(first.firstChild!.textContent).toBe('needle and ');
+       expect(first.querySelector('span')!.textContent).toBe('needle');
+       highlighter.resetAll();
+       expect(first.childNodes.length).toBe(1);
+       expect(snapshot()).toBe(html);
+     });
+
+  it('skips matches overlapping a selection across elements', async () => {
+    const range = document.createRange();
+    range.setStart(document.querySelector('#second b')!.firstChild!, 0);
+    range.setEnd(document.querySelector('#second')!.lastChild!, 3);
+    window.getSelection()!.removeAllRanges();
+    window.getSelection()!.addRange(range);
+    await highlighter.highlight();
+
+    expect(highlighter.annotatedMatches.length).toBe(3);
+    expect(document.querySelector('#second span')).toBeNull();
+  });
+
+  it('ignores selections shorter than minCharSize', async () => {
+    select(document.getElementById('first')!.firstChild!, 0, 2);
+    await highlighter.highlight();
+
+    expect(highlighted()).toEqual([]);
+    expect(snapshot()).toBe(html);
+  });
+
+  it('restores the page text and structure on reset', async () => {
+    select(document.getElementById('first')!.firstChild!, 0, 6);
+    await highlighter.highlight();
+    expect(snapshot()).not.toBe(html);
+
+    highlighter.resetAll();
+    expect(snapshot()).toBe(html);
+    expect(document.body.textContent).toContain('needle in a haystack');
+  });
+
+  it('restores the page when disabled', async () => {
+    select(document.getElementById('first')!.firstChild!, 0, 6);
+    await highlighter.highlight();
+
+    alfred.setSettings({[HIGHLIGHTER_NAME]: {enabled: false}}, true);
+    await alfred.run([feature]);
+    expect(alfred.isActive(feature)).toBe(false);
+    // counter is removed along with the highlights
+    expect(snapshot()).toBe(html);
+  });
+
+  it('restores the page when highlighting is cancelled', async () => {
+    select(document.getElementById('first')!.firstChild!, 0, 6);
+    const highlighting = highlighter.highlight();
+    highlighter.resetAll();
+    await highlighting;
+
+    expect(snapshot()).toBe(html);
+  });
+
+  it('leaves nested frames to their own content script', async () => {
+    const frame = document.createElement('iframe');
+    document.body.appendChild(frame);
+    const frameDocument = frame.contentDocument!;
+    frameDocument.body.innerHTML = '<p>needle in a frame</p>';
+    html = snapshot();
+
+    await highlighter.highlightText('needle');
+    expect(frameDocument.body.innerHTML).toBe('<p>needle in a frame</p>');
+
+    highlighter.resetAll();
+    expect(snapshot()).toBe(html);
+  });
+
+  it('highlights terms relayed from other frames with crossFrame',
+     async () => {
+       await activate({crossFrame: true});
+       const sender = {id: 'alfred', tab: {id: 1} as chrome.tabs.Tab};
+       fakeChrome().dispatch(
+           {
+             eventName: EventNames.HIGHLIGHT_TERM_REQUEST,
+             term: 'needle',
+             source: 'other-frame',
+           },
+           {...sender, frameId: 3});
+       await new Promise(resolve => setTimeout(resolve, 50));
+
+       expect(highlighter.annotatedMatches.length).toBe(4);
+     });
+
+  it('runs highlight and clear commands', async () => {
+    const run = (command: Command, text?: string) => fakeChrome().dispatch(
+        {eventName: EventNames.RUN_COMMAND_REQUEST, command, text},
+        {id: 'alfred', frameId: 0});
+    // shorter than minCharSize, but asked for explicitly
+    run(Command.HIGHLIGHT_SELECTION, 'in');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(highlighter.annotatedMatches.length).toBeGreaterThan(0);
+
+    run(Command.CLEAR_HIGHLIGHTS);
+    expect(snapshot()).toBe(html);
+  });
+
+  it('navigates matches with shortcuts outside of editable fields',
+     async () => {
+       const textarea = document.createElement('textarea');
+       document.body.appendChild(textarea);
+       await highlighter.highlightText('needle');
+       const press = (target: EventTarget) => {
+         const event = new KeyboardEvent('keydown', {
+           code: 'ArrowDown',
+           altKey: true,
+           bubbles: true,
+           cancelable: true,
+         });
+         target.dispatchEvent(event);
+         return event.defaultPrevented;
+       };
+
+       expect(press(textarea)).toBe(false);
+       expect(press(document.body)).toBe(true);
+     });
+
+  it('pins terms in the same text nodes', async () => {
+    document.body.innerHTML = '<p>alpha beta</p><p>alpha beta</p>';
+    html = snapshot();
+    highlighter.togglePin('alpha');
+    highlighter.togglePin('beta');
+
+    expect(highlighted()).toEqual(['alpha', 'beta', 'alpha', 'beta']);
+    const panel =
+        document.getElementById('extension-selection-highlighter-pinned')!;
+    const labels = Array.from(panel.shadowRoot!.querySelectorAll('li span'))
+                       .map(label => label.textContent);
+    expect(labels).toEqual(['alpha (2)', 'beta (2)']);
+
+    highlighter.togglePin('alpha');
+    highlighter.togglePin('beta');
+    expect(snapshot()).toBe(html);
+  });
+
+  it('highlights content added while highlighting', async () => {
+    // idle slices of the run are started one at a time
+    type IdleCallback = (deadline: {timeRemaining(): number}) => void;
+    const idleWindow = window as unknown as
+        {requestIdleCallback?: (callback: IdleCallback) => void};
+    const idle: IdleCallback[] = [];
+    let done = false;
+    const runIdle = async () => {
+      while (!idle.length && !done) {
+        await new Promise(resolve => setTimeout(resolve));
+      }
+      const callback = idle.shift();
+      if (callback) callback({timeRemaining: () => 10});
+    };
+    idleWindow.requestIdleCallback = callback => idle.push(callback);
+
+    try {
+      const highlighting =
+          highlighter.highlightText('needle').then(() => done = true);
+      // added after the first slice, reported before the run is done
+      await runIdle();
+      const added = document.createElement('p');
+      added.textContent = 'late needle';
+      document.body.appendChild(added);
+      await new Promise(resolve => setTimeout(resolve, 400));
+      // slices are timed, how many the run takes depends on the machine
+      while (!done) await runIdle();
+      await highlighting;
+
+      expect(highlighter.annotatedMatches.length).toBe(5);
+      expect(added.querySelector('span')!.textContent).toBe('needle');
+    } finally {
+      delete idleWindow.requestIdleCallback;
+    }
+  });
+
+  it('highlights pinned terms in added content', async () => {
+    highlighter.togglePin('haystack');
+    const added = document.createElement('p');
+    added.textContent = 'another haystack';
+    document.body.appendChild(added);
+    await new Promise(resolve => setTimeout(resolve, 400));
+
+    expect(highlighted()).toEqual(['haystack', 'haystack']);
+    added.remove();
+    highlighter.togglePin('haystack');
+    expect(snapshot()).toBe(html);
+  });
+
+  it('highlights content added to shadow roots found by the walk', async () => {
+    const scan = jest.spyOn(Element.prototype, 'querySelectorAll');
+    try {
+      await highlighter.highlightText('needle');
+      // the page is not scanned for shadow roots
+      expect(scan).not.toHaveBeenCalledWith('*');
+    } finally {
+      scan.mockRestore();
+    }
+
+    const shadow = document.getElementById('host')!.shadowRoot!;
+    const added = document.createElement('p');
+    added.textContent = 'shadow needle';
+    shadow.appendChild(added);
+    await new Promise(resolve => setTimeout(resolve, 400));
+
+    expect(highlighted(shadow)).toEqual(['needle', 'needle']);
+  });
+
+  it('pins with the shortcut outside of editable fields', async () => {
+    const textarea = document.createElement('textarea');
+    document.body.appendChild(textarea);
+    await highlighter.highlightText('needle');
+    const press = (target: EventTarget) => {
+      const event = new KeyboardEvent('keydown', {
+        code: 'KeyP',
+        altKey: true,
+        bubbles: true,
+        cancelable: true,
+      });
+      target.dispatchEvent(event);
+      return event.defaultPrevented;
+    };
+
+    expect(press(textarea)).toBe(false);
+    expect(highlighted().length).toBe(4);
+    expect(press(document.body)).toBe(true);
+    // highlighted by the active term and the pinned one
+    expect(highlighted().length).toBe(8);
+  });
+
+  describe('smart selection', () => {
+    const CODE =
+        'fooBar_baz = width + id;\nreturn fooBar_baz(id, $id, fooBar);';
+    let code: Text;
+
+    beforeEach(async () => {
+      document.body.innerHTML = '<pre></pre>';
+      document.querySelector('pre')!.textContent = CODE;
+      code = document.querySelector('pre')!.firstChild as Text;
+      await activate({smartSelection: true});
+    });
+
+    it('expands the selection to the whole identifier', async () => {
+      // `Bar` of the first `fooBar_baz`
+      select(code, 3, 6);
+      await highlighter.highlight();
+
+      expect(highlighted()).toEqual(['fooBar_baz']);
+      expect(highlighter.annotatedMatches.length).toBe(1);
+
+      // whitespace around it is left out, e.g: from double clicks
+      highlighter.resetAll();
+      select(code, 6, 11);
+      await highlighter.highlight();
+      expect(highlighted()).toEqual(['fooBar_baz']);
+    });
+
+    it('matches short identifiers only as whole identifiers', async () => {
+      const start = CODE.indexOf(' id') + 1;
+      select(code, start, start + 2);
+      await highlighter.highlight();
+
+      // not within `width` nor `$id`
+      expect(highlighted()).toEqual(['id']);
+    });
+
+    it('ignores identifiers shorter than identifierMinCharSize', async () => {
+      await activate({smartSelection: true, identifierMinCharSize: 3});
+      const start = CODE.indexOf(' id') + 1;
+      select(code, start, start + 2);
+      await highlighter.highlight();
+      expect(highlighted()).toEqual([]);
+    });
+
+    it('uses minCharSize for anything but identifiers', async () => {
+      // `d,` of `(id,`, also in `$id,`
+      const start = CODE.indexOf('(id,') + 2;
+      select(code, start, start + 2);
+      await highlighter.highlight();
+      expect(highlighted()).toEqual([]);
+
+      await activate({smartSelection: true, minCharSize: 2});
+      select(code, start, start + 2);
+      await highlighter.highlight();
+      expect(highlighted()).toEqual(['d,']);
+    });
+
+    it('selects as usual with smartSelection off', async () => {
+      await activate();
+      select(code, 3, 6);
+      await highlighter.highlight();
+
+      expect(highlighted()).toEqual(['Bar', 'Bar']);
+    });
+  });
+
+  describe('search box', () => {
+    const panel = () =>
+        document.getElementById('extension-selection-highlighter-search')!
+            .shadowRoot!;
+    const input = () => panel().querySelector('input')!;
+    const wait = (ms: number) =>
+        new Promise(resolve => setTimeout(resolve, ms));
+
+    function type(text: string) {
+      input().value = text;
+      input().dispatchEvent(new Event('input'));
+    }
+
+    function press(key: string, shiftKey = false) {
+      input().dispatchEvent(new KeyboardEvent('keydown', {key, shiftKey}));
+    }
+
+    it('highlights the term as it is typed', async () => {
+      await highlighter.openSearch();
+      type('nee');
+      type('needle');
+      await wait(300);
+
+      expect(highlighter.annotatedMatches.length).toBe(4);
+      expect(panel().querySelector('span')!.textContent).toBe('- / 4');
+      // the panel itself is never highlighted
+      expect(highlighted(panel())).toEqual([]);
+    });
+
+    it('navigates matches and remembers terms on enter', async () => {
+      await highlighter.openSearch();
+      type('needle');
+      press('Enter');
+      await wait(50);
+      expect(panel().querySelector('span')!.textContent).toBe('1 / 4');
+      press('Enter', true);
+      await wait(50);
+      expect(panel().querySelector('span')!.textContent).toBe('4 / 4');
+
+      type('haystack');
+      press('Enter');
+      await wait(50);
+      expect(await platform().local.get('search-history')).toEqual([
+        'haystack', 'needle'
+      ]);
+      const history = Array.from(panel().querySelectorAll('li'))
+                          .map(item => item.textContent);
+      expect(history).toEqual(['haystack', 'needle']);
+    });
+
+    it('keeps highlights on close and clears them with no term', async () => {
+      await highlighter.openSearch();
+      type('needle');
+      press('Enter');
+      await wait(50);
+      press('Escape');
+      expect(document.getElementById('extension-selection-highlighter-search'))
+          .toBeNull();
+      expect(highlighter.annotatedMatches.length).toBe(4);
+
+      await highlighter.openSearch();
+      // filled with the highlighted term
+      expect(input().value).toBe('needle');
+      type('');
+      await wait(300);
+      expect(highlighter.annotatedMatches.length).toBe(0);
+    });
+  });
+});
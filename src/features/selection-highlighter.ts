@@ -1,82 +1,599 @@
 import {Alfred, Feature} from '../api';
-import {debounce, querySelectorAll} from '../utils';
-
-interface HighlightConfig {
-  highlightStyle?: string;
-  excludeSelf?: boolean;
-  excludeParents?: string[];
-  noHighlightWithin?: string[];
-  excludeUrlPatterns?: string[];
-  minCharSize?: number;
-}
+import {DEFAULT_PIN_COLORS, HIGHLIGHT_CONFIG_SCHEMA, HighlightConfig, HIGHLIGHTER_NAME, resolveConfig} from '../highlighter/config';
+import {MatchCounter} from '../highlighter/match-counter';
+import {buildPattern, findAll, identifierBounds, isIdentifier, MatchOptions, matchOffsets} from '../highlighter/matcher';
+import {Minimap} from '../highlighter/minimap';
+import {MutationWatcher} from '../highlighter/mutation-watcher';
+import {PinnedTerm, PinnedTermsPanel} from '../highlighter/pinned-terms-panel';
+import {createRenderer, HighlightRenderer} from '../highlighter/renderer';
+import {SearchPanel} from '../highlighter/search-panel';
+import {collectTextNodes, compareMatches, hasExcludedAncestor, Match, TextIndex, walkTextNodes} from '../highlighter/text-index';
+import {listen, send} from '../messages';
+import {platform} from '../platform';
+import {schemaDefaults} from '../schema';
+import {Command, EventNames, MatchesSummary} from '../types';
+import {debounce, debug, isWithin, matchesShortcut, runInIdleSlices} from '../utils';
+
+// key of recently searched terms in local storage, shared by all sites
+const SEARCH_HISTORY_KEY = 'search-history';
 
 class SelectionHighlighter extends Feature {
-  name = 'Select To Highlight';
+  name = HIGHLIGHTER_NAME;
   description =
       'Select any text and highlight all occurrences on the page, `excludeParents` may have performance impact, so careful to use.';
   enabled = true;
-  value = JSON.stringify(
-      {
-        excludeSelf: true,
-        highlightStyle: 'background-color: yellow;',
-        excludeParents: [],
-        noHighlightWithin: ['input', 'textarea', '[contentEditable]'],
-        excludeUrlPatterns: [],
-        minCharSize: 3,
-      },
-      null, 2);
+  schema = HIGHLIGHT_CONFIG_SCHEMA;
+  value = JSON.stringify(schemaDefaults(HIGHLIGHT_CONFIG_SCHEMA), null, 2);
+  quickFields = [
+    'caseSensitive', 'wholeWord', 'normalizeWhitespace', 'regex',
+    'minCharSize', 'smartSelection', 'crossFrame'
+  ];
 
+  // parsed with site profiles applied on activation and navigation, value
+  // only changes with a re-run
+  private config: HighlightConfig = {};
+  // set when current url matches `excludeUrlPatterns`
+  private excluded = false;
   private currentHighlightText = '';
-  private annotatedNodes = new Set<Element>();
-  private listener = debounce(() => this.highlight());
+  private annotatedMatches: Match[] = [];
+  // set when matches beyond `maxMatches` were left out
+  private truncated = false;
+  // bumped to cancel the highlighting in progress
+  private runId = 0;
+  private highlighting = false;
+  private renderer?: HighlightRenderer;
+  private activeIndex = -1;
+  private counter = new MatchCounter();
+  private minimap = new Minimap(index => this.activateMatch(index));
+  private watcher = new MutationWatcher(roots => this.onMutations(roots));
+  // changed while highlighting, handled once the run is over
+  private pendingRoots: Node[] = [];
+  // text of every match when annotated, to find the stale ones
+  private matchTexts = new WeakMap<Match, string>();
+  private highlightLater =
+      debounce(() => this.highlight().catch(e => this.recordFailure(e)));
+
+  // matches last reported, for the toolbar badge and popup
+  private reportedMatches: MatchesSummary = {term: '', count: 0};
+  // batched as highlights change quickly
+  private reportMatches = debounce(() => {
+    const term = this.currentHighlightText;
+    const count = this.annotatedMatches.length;
+    const reported = this.reportedMatches;
+    if (term === reported.term && count === reported.count) return;
+    this.reportedMatches = {term, count};
+    send({eventName: EventNames.REPORT_MATCHES_REQUEST, term, count})
+        .catch(e => debug(e));
+  }, 300);
+
+  private listener = () => {
+    if (this.excluded) return;
+    // stop highlighting in progress right away when selection moves on to
+    // another text, collapsed selections keep current highlights
+    if (this.highlighting) {
+      const text = this.selectedTerm;
+      if (text && text !== this.currentHighlightText) this.resetAll();
+    }
+    this.highlightLater();
+  };
+
+  // pinned terms are kept across re-runs, only their highlights are reset
+  private pinnedTerms: PinnedTerm[] = [];
+  private pinnedRenderers = new Map<PinnedTerm, HighlightRenderer>();
+  private pinnedMatches = new Map<PinnedTerm, Match[]>();
+  private pinnedPanel = new PinnedTermsPanel(term => this.unpin(term));
+  private pinId = 0;
+
+  private searchPanel = new SearchPanel({
+    search: term => this.search(term),
+    navigate: step => this.navigate(step),
+    commit: term => this.addToHistory(term).catch(e => this.recordFailure(e)),
+    close: () => this.searchPanel.remove(),
+  });
+
+  // identifies this frame in terms relayed to other frames
+  private frameToken = Math.random().toString(36).slice(2);
+
+  private shortcutKeyHandler = (event: KeyboardEvent) => {
+    if (this.excluded) return;
+    const config = this.config;
+    if (config.clearShortcut && this.currentHighlightText &&
+        matchesShortcut(event, config.clearShortcut)) {
+      // the page may use the key too, e.g: Escape to close dialogs
+      this.clearHighlights();
+      return;
+    }
+    if (config.searchShortcut &&
+        matchesShortcut(event, config.searchShortcut)) {
+      // the page may be typing into an input with the same keys
+      if (isWithin(event.composedPath()[0], config.noHighlightWithin)) {
+        return;
+      }
+      event.preventDefault();
+      this.openSearch().catch(e => this.recordFailure(e));
+      return;
+    }
+    if (config.pinShortcut && matchesShortcut(event, config.pinShortcut)) {
+      // the keys may type a character, e.g: `π` on mac
+      if (isWithin(event.composedPath()[0], config.noHighlightWithin)) {
+        return;
+      }
+      const text = this.selectedTerm || this.currentHighlightText;
+      if (text) {
+        event.preventDefault();
+        this.togglePin(text);
+      }
+      return;
+    }
+
+    if (!this.annotatedMatches.length) return;
+    // the keys move the caret in editable fields
+    if (isWithin(event.composedPath()[0], config.noHighlightWithin)) {
+      return;
+    }
+    if (config.nextMatchShortcut &&
+        matchesShortcut(event, config.nextMatchShortcut)) {
+      event.preventDefault();
+      this.navigate(1);
+    } else if (
+        config.previousMatchShortcut &&
+        matchesShortcut(event, config.previousMatchShortcut)) {
+      event.preventDefault();
+      this.navigate(-1);
+    }
+  };
 
   get selectedText() {
     const selection = window.getSelection();
     return selection ? selection.toString().trim() : '';
   }
 
+  // text to highlight for the selection, the whole identifier around it with
+  // `smartSelection` on
+  get selectedTerm() {
+    return this.config.smartSelection && this.selectedIdentifier() ||
+        this.selectedText;
+  }
+
+  // identifier the selection is part of, e.g: `fooBar_baz` when `Bar` is
+  // selected, only within a single text node
+  private selectedIdentifier() {
+    const selection = window.getSelection();
+    if (!selection || !selection.rangeCount) return undefined;
+    const range = selection.getRangeAt(0);
+    const node = range.startContainer;
+    if (node !== range.endContainer || !(node instanceof Text)) {
+      return undefined;
+    }
+    const bounds =
+        identifierBounds(node.data, range.startOffset, range.endOffset);
+    const text = bounds && node.data.slice(...bounds);
+    return text && isIdentifier(text) ? text : undefined;
+  }
+
   async shouldRun() {
     return true;
   }
 
-  async run() {
-    const config: HighlightConfig = JSON.parse(this.value);
-    if (config.excludeUrlPatterns && config.excludeUrlPatterns.length) {
-      const theUrl = location.href;
-      if (config.excludeUrlPatterns.some(regex => new RegExp(regex).test(theUrl))) {
-          document.removeEventListener('selectionchange', this.listener);
+  async activate() {
+    // shadow roots are added as the text walks find them
+    this.watcher.observe(document.body);
+    document.addEventListener('selectionchange', this.listener);
+    document.addEventListener('keydown', this.shortcutKeyHandler);
+    const stopListening = listen({
+      // from keyboard shortcuts and the context menu
+      [EventNames.RUN_COMMAND_REQUEST]: request => {
+        if (this.excluded) return;
+        this.runCommand(request.command, request.text);
+      },
+      // term highlighted or cleared in another frame
+      [EventNames.HIGHLIGHT_TERM_REQUEST]: request => {
+        if (request.source === this.frameToken) return;
+        if (this.excluded || !this.config.crossFrame) return;
+        if (request.term === this.currentHighlightText) return;
+        if (!request.term) {
           this.resetAll();
           return;
-      }
-    }
-
-    document.addEventListener('selectionchange', this.listener);
+        }
+        this.highlightText(request.term).catch(e => this.recordFailure(e));
+      },
+    });
     this.teardownQueue.push(() => {
       document.removeEventListener('selectionchange', this.listener);
+      document.removeEventListener('keydown', this.shortcutKeyHandler);
+      stopListening();
       this.resetAll();
+      this.resetPinned();
+      this.watcher.disconnect();
+      this.searchPanel.remove();
+      this.config = {};
     });
+
+    // restores terms pinned before the re-run too
+    this.applyUrlRules();
+  }
+
+  // listeners are kept on soft navigation, only url rules apply again
+  async onNavigate() {
+    this.applyUrlRules();
+    return true;
+  }
+
+  // text is the selection the context menu was opened on, frames without a
+  // selection ignore commands on it
+  private runCommand(command: Command, text = this.selectedTerm) {
+    switch (command) {
+      case Command.HIGHLIGHT_SELECTION:
+        // explicitly asked for, so `minCharSize` does not apply
+        text = text.trim();
+        if (!text || text === this.currentHighlightText) return;
+        this.relay(text);
+        this.highlightText(text).catch(e => this.recordFailure(e));
+        break;
+      case Command.CLEAR_HIGHLIGHTS:
+        this.clearHighlights();
+        break;
+      case Command.PIN_TERM:
+        text = text.trim();
+        if (text) this.togglePin(text);
+        break;
+      case Command.OPEN_SEARCH:
+        this.openSearch().catch(e => this.recordFailure(e));
+        break;
+      default:
+        break;
+    }
+  }
+
+  // resolve config for current url, highlights are redone when it changed
+  private applyUrlRules() {
+    // apply overrides of profiles matching current page
+    const {config} = resolveConfig(JSON.parse(this.value), location.href);
+    const theUrl = location.href;
+    const excluded = (config.excludeUrlPatterns || [])
+                         .some(regex => new RegExp(regex).test(theUrl));
+    const changed = excluded !== this.excluded ||
+        JSON.stringify(config) !== JSON.stringify(this.config);
+    this.config = config;
+    this.excluded = excluded;
+    if (!changed) return;
+
+    this.resetAll();
+    if (excluded) {
+      this.resetPinned();
+      this.searchPanel.remove();
+    } else {
+      this.renderPinned();
+    }
+  }
+
+  private togglePin(text: string) {
+    const pinned = this.pinnedTerms.find(term => term.text === text);
+    if (pinned) {
+      this.unpin(pinned);
+      return;
+    }
+
+    const config = this.config;
+    const colors = config.pinColors && config.pinColors.length ?
+        config.pinColors :
+        DEFAULT_PIN_COLORS;
+    // prefer colors not used yet, cycle through the palette otherwise
+    const usedColors = this.pinnedTerms.map(term => term.color);
+    const color = colors.find(c => !usedColors.includes(c)) ||
+        colors[this.pinnedTerms.length % colors.length];
+    this.pinnedTerms.push({id: this.pinId++, text, color, count: 0});
+    this.renderPinned();
+  }
+
+  private unpin(term: PinnedTerm) {
+    this.pinnedTerms = this.pinnedTerms.filter(t => t !== term);
+    this.renderPinned();
+  }
+
+  // highlight all pinned terms, each with its own color
+  private renderPinned() {
+    this.resetPinned();
+    if (!this.pinnedTerms.length) return;
+
+    const config = this.config;
+    // find matches of all terms first, spans split the indexed text nodes
+    const index = new TextIndex(this.textNodesUnder(document.body));
+    const toRender: Array<[Match, HighlightRenderer]> = [];
+    this.pinnedTerms.forEach(term => {
+      const matches = this.findMatches(index, term.text);
+      const style = `background-color: ${term.color};`;
+      const renderer = createRenderer(
+          config.renderer, `selection-highlighter-pin-${term.id}`, style,
+          style);
+      matches.forEach(match => {
+        toRender.push([match, renderer]);
+        this.matchTexts.set(match, this.matchText(match));
+      });
+      this.pinnedRenderers.set(term, renderer);
+      this.pinnedMatches.set(term, matches);
+      term.count = matches.length;
+    });
+
+    // render from the end so matches before are not affected
+    toRender.sort(([a], [b]) => compareMatches(b, a));
+    this.watcher.ignore(
+        () => toRender.forEach(([match, renderer]) => renderer.render(match)));
+    this.pinnedPanel.update(this.pinnedTerms);
+  }
+
+  private resetPinned() {
+    this.watcher.ignore(
+        () => this.pinnedRenderers.forEach(renderer => renderer.clear()));
+    this.pinnedRenderers.clear();
+    this.pinnedMatches.clear();
+    this.pinnedPanel.remove();
   }
 
   private resetAll() {
-    // clean up all existing annotated nodes
-    if (this.annotatedNodes.size) {
-      this.annotatedNodes.forEach(node => {
-        const parentNode = node.parentNode;
-        node.replaceWith(node.textContent || '');
-        // merge with text nodes close to it
-        parentNode && parentNode.normalize();
+    // cancel highlighting in progress
+    this.runId++;
+    this.highlighting = false;
+
+    // clean up all existing highlights, not reported as changes
+    const renderer = this.renderer;
+    if (renderer) {
+      this.watcher.ignore(() => renderer.clear());
+      this.renderer = undefined;
+    }
+    this.annotatedMatches = [];
+    this.truncated = false;
+    this.activeIndex = -1;
+    this.counter.remove();
+    this.minimap.remove();
+    this.searchPanel.updateCount(0, 0);
+    this.currentHighlightText = '';
+    this.reportMatches();
+    // changes queued by a cancelled run still apply to pinned terms
+    this.flushPendingRoots();
+  }
+
+  private flushPendingRoots() {
+    const roots = this.pendingRoots;
+    this.pendingRoots = [];
+    if (roots.length) this.onMutations(roots);
+  }
+
+  // annotate added or changed subtrees for the active and pinned terms and
+  // drop matches no longer on the page
+  private onMutations(roots: Node[]) {
+    // the run in progress may have missed them, handled once it's done
+    if (this.highlighting) {
+      this.pendingRoots.push(...roots);
+      return;
+    }
+    // nothing on the page to keep up to date
+    if (!this.currentHighlightText && !this.pinnedRenderers.size) return;
+    const config = this.config;
+
+    // text nodes may be merged when spans are removed, use their parents
+    const parents = new Set(roots.map(
+        root => root.nodeType === Node.TEXT_NODE ? root.parentNode : root));
+    const connected = Array.from(parents).filter(
+        (root): root is Node => !!root && root.isConnected &&
+            !hasExcludedAncestor(root, config.excludeParents));
+    // nested ones are covered by their ancestors
+    const changedRoots = connected.filter(
+        root => !connected.some(
+            other => other !== root && other.contains(root)));
+
+    this.updatePinnedMatches(changedRoots);
+    this.updateActiveMatches(changedRoots);
+  }
+
+  private updatePinnedMatches(changedRoots: Node[]) {
+    let updated = false;
+    this.pinnedTerms.forEach(term => {
+      const renderer = this.pinnedRenderers.get(term);
+      const matches = this.pinnedMatches.get(term);
+      if (!renderer || !matches) return;
+      const dropped =
+          matches.filter(match => this.isChanged(match, changedRoots));
+      const added = this.watcher.ignore(() => {
+        renderer.remove(([] as Range[]).concat(...dropped));
+        const found = this.matchesUnder(changedRoots, term.text);
+        renderer.render(([] as Range[]).concat(...found));
+        return found;
       });
-      this.annotatedNodes = new Set();
-      this.currentHighlightText = '';
+      if (!dropped.length && !added.length) return;
+
+      added.forEach(match => this.matchTexts.set(match, this.matchText(match)));
+      const kept = matches.filter(match => !dropped.includes(match));
+      this.pinnedMatches.set(term, [...kept, ...added]);
+      term.count = kept.length + added.length;
+      updated = true;
+    });
+    if (updated) this.pinnedPanel.update(this.pinnedTerms);
+  }
+
+  private updateActiveMatches(changedRoots: Node[]) {
+    const renderer = this.renderer;
+    const text = this.currentHighlightText;
+    if (!renderer || !text) return;
+
+    const kept: Match[] = [];
+    const dropped: Match[] = [];
+    this.annotatedMatches.forEach(match => {
+      (this.isChanged(match, changedRoots) ? dropped : kept).push(match);
+    });
+
+    const added = this.watcher.ignore(() => {
+      renderer.remove(([] as Range[]).concat(...dropped));
+      const found =
+          this.excludeSelected(this.matchesUnder(changedRoots, text));
+      renderer.render(([] as Range[]).concat(...found));
+      return found;
+    });
+    if (!dropped.length && !added.length) return;
+
+    added.forEach(match => this.matchTexts.set(match, this.matchText(match)));
+    const active = this.annotatedMatches[this.activeIndex];
+    const matches = [...kept, ...added].sort(compareMatches);
+
+    // keep the cap, matches at the end of the page are dropped first
+    const maxMatches = this.maxMatches;
+    if (matches.length > maxMatches) {
+      const overflow = matches.splice(maxMatches);
+      this.watcher.ignore(
+          () => renderer.remove(([] as Range[]).concat(...overflow)));
+      this.truncated = true;
     }
+
+    this.annotatedMatches = matches;
+    this.activeIndex = active ? this.annotatedMatches.indexOf(active) : -1;
+    if (this.activeIndex === -1) renderer.setActive([]);
+    this.updateMatchUi();
   }
 
-  private highlight() {
-    const config: HighlightConfig = JSON.parse(this.value);
-    const curSelectedText = this.selectedText;
+  private get maxMatches() {
+    return this.config.maxMatches && this.config.maxMatches > 0 ?
+        this.config.maxMatches :
+        Infinity;
+  }
+
+  // returns true if the match is in a changed root or no longer on the page
+  private isChanged(match: Match, changedRoots: Node[]) {
+    return this.isStale(match) ||
+        changedRoots.some(root => root.contains(match[0].startContainer));
+  }
 
-    // ignore no selection or text less than minCharSize char
-    if (!curSelectedText || curSelectedText.length < config.minCharSize) return;
+  // all occurrences of the text in the roots, indexed as they are now
+  private matchesUnder(roots: Node[], text: string) {
+    const matches: Match[] = [];
+    roots.forEach(root => {
+      if (!root.isConnected) return;
+      const index = new TextIndex(this.textNodesUnder(root));
+      matches.push(...this.findMatches(index, text));
+    });
+    return matches;
+  }
+
+  // returns true if the match was removed or its text changed
+  private isStale(match: Match) {
+    return match.some(
+               range => !range.startContainer.isConnected ||
+                   !range.endContainer.isConnected) ||
+        this.matchText(match) !== this.matchTexts.get(match);
+  }
+
+  private matchText(match: Match) {
+    return match.map(range => range.toString()).join('');
+  }
+
+  // refresh the counter and minimap with current matches
+  private updateMatchUi() {
+    const total = this.annotatedMatches.length;
+    this.reportMatches();
+    this.searchPanel.updateCount(this.activeIndex + 1, total, this.truncated);
+    if (!total) {
+      this.counter.remove();
+      this.minimap.remove();
+      return;
+    }
+    this.counter.update(this.activeIndex + 1, total, this.truncated);
+    if (this.config.showMinimap) {
+      this.minimap.update(this.annotatedMatches);
+      this.minimap.setActive(this.activeIndex);
+    }
+  }
+
+  // move the active match by step, wraps around at both ends
+  private navigate(step: number) {
+    const total = this.annotatedMatches.length;
+    if (!total) return;
+    this.activateMatch(
+        this.activeIndex === -1 ? (step > 0 ? 0 : total - 1) :
+                                  (this.activeIndex + step + total) % total);
+  }
+
+  // mark the match at index as active and scroll to it
+  private activateMatch(index: number) {
+    const total = this.annotatedMatches.length;
+    if (!this.renderer || index < 0 || index >= total) return;
+    this.activeIndex = index;
+
+    const match = this.annotatedMatches[index];
+    this.renderer.setActive(match);
+    const container = match[0].startContainer;
+    const element = container.nodeType === Node.ELEMENT_NODE ?
+        container as Element :
+        container.parentElement;
+    if (element) element.scrollIntoView({block: 'center', inline: 'nearest'});
+    this.counter.update(index + 1, total, this.truncated);
+    this.searchPanel.updateCount(index + 1, total, this.truncated);
+    this.minimap.setActive(index);
+  }
+
+  // clear highlights here, and in other frames with `crossFrame`
+  private clearHighlights() {
+    this.resetAll();
+    this.relay('');
+  }
+
+  private relay(term: string) {
+    if (!this.config.crossFrame) return;
+    send({
+      eventName: EventNames.RELAY_TERM_REQUEST,
+      term,
+      source: this.frameToken,
+    }).catch(e => debug(e));
+  }
+
+  // show the search box, filled with the selection or the highlighted term
+  private async openSearch() {
+    if (this.excluded) return;
+    const term = this.selectedTerm || this.currentHighlightText;
+    this.searchPanel.show(await this.loadHistory(), term || undefined);
+  }
+
+  // highlight a term typed in the search box, here and in other frames
+  private async search(term: string) {
+    term = term.trim();
+    if (term === this.currentHighlightText) return;
+    if (!term) {
+      this.clearHighlights();
+      return;
+    }
+    this.relay(term);
+    try {
+      await this.highlightText(term);
+    } catch (e) {
+      this.recordFailure(e);
+    }
+  }
+
+  // recently searched terms, the latest first
+  private async loadHistory() {
+    return (await platform().local.get<string[]>(SEARCH_HISTORY_KEY)) || [];
+  }
+
+  private async addToHistory(term: string) {
+    const size = this.config.searchHistorySize || 0;
+    const history = (await this.loadHistory()).filter(t => t !== term);
+    history.unshift(term);
+    history.splice(size);
+    await platform().local.set(SEARCH_HISTORY_KEY, history);
+    this.searchPanel.updateHistory(history);
+  }
+
+  // highlight the selection if it changed
+  private async highlight() {
+    const config = this.config;
+    // typing in the search box selects text too
+    if (this.searchPanel.hasFocus) return;
+    const curSelectedText = this.selectedTerm;
+
+    // ignore no selection or text less than minCharSize char, identifiers
+    // have their own threshold as short ones are often meaningful, e.g: `id`
+    const minCharSize = this.matchOptions(curSelectedText).identifier ?
+        config.identifierMinCharSize :
+        config.minCharSize;
+    if (!curSelectedText || curSelectedText.length < minCharSize) return;
 
     // no change on selected text
     if (curSelectedText === this.currentHighlightText) return;
@@ -91,114 +608,130 @@ class SelectionHighlighter extends Feature {
       }
     }
 
+    this.relay(curSelectedText);
+    await this.highlightText(curSelectedText);
+  }
+
+  /**
+   * Highlight all occurrences of the text.
+   *
+   * Walking, matching and rendering all run in idle slices so large pages
+   * stay responsive, a newer selection or a clean up cancels the run.
+   */
+  private async highlightText(text: string) {
+    const config = this.config;
     this.resetAll();
+    const startTime = performance.now();
+    const runId = this.runId;
+    const isCancelled = () => runId !== this.runId;
+    this.highlighting = true;
+    this.currentHighlightText = text;
+    // changes made during the run are queued until it's done
 
-    // walk through all the nodes and annotate them
-    let nodes: Array<Element|ShadowRoot> = [document.body];
-    while (nodes.length) {
-      const node = nodes.shift();
-      if (!node) continue;
-      if (node.innerHTML.includes(curSelectedText)) {
-        const textNodes = this.textNodesUnder(node);
-        textNodes.forEach(nodeToBeAnnotate => {
-          this.annotateTextNode(nodeToBeAnnotate, curSelectedText);
-        });
-        this.currentHighlightText = curSelectedText;
-      }
+    // collect text of the whole page, shadow roots included
+    const textNodes: Text[] = [];
+    const walker = walkTextNodes(
+        document.body, config.excludeParents,
+        root => this.watcher.observeShadowRoot(root));
+    const walked = await runInIdleSlices(() => {
+      const next = walker.next();
+      if (next.done) return false;
+      textNodes.push(next.value as Text);
+      return true;
+    }, isCancelled);
+    if (!walked) return;
 
-      // add all shadow nodes
-      nodes = nodes.concat(Array.from(node.querySelectorAll('*'))
-                               .filter(n => !!n.shadowRoot)
-                               .map(n => n.shadowRoot!));
+    // find occurrences in the flattened text so matches can span multiple
+    // text nodes, up to the cap
+    const pattern = buildPattern(text, this.matchOptions(text));
+    const index = new TextIndex(textNodes);
+    const offsets = pattern ? matchOffsets(index.text, pattern) : undefined;
+    const matches: Match[] = [];
+    const matched = await runInIdleSlices(() => {
+      const next = offsets && offsets.next();
+      if (!next || next.done) return false;
+      const [start, end] = next.value as [number, number];
+      const match = index.toMatch(start, end);
+      if (this.excludeSelected([match]).length) matches.push(match);
+      return matches.length <= this.maxMatches;
+    }, isCancelled);
+    if (!matched) return;
+    if (matches.length > this.maxMatches) {
+      matches.splice(this.maxMatches);
+      this.truncated = true;
     }
+
+    // render from the end, splitting text nodes for spans does not affect
+    // matches before
+    const renderer = createRenderer(
+        config.renderer, 'selection-highlighter',
+        config.highlightStyle || 'background-color:yellow;',
+        config.activeHighlightStyle || 'background-color:orange;');
+    this.renderer = renderer;
+    let toRender = matches.length;
+    const rendered = await runInIdleSlices(() => {
+      if (!toRender) return false;
+      const match = matches[--toRender];
+      this.watcher.ignore(() => renderer.render(match));
+      return true;
+    }, isCancelled);
+    if (!rendered) return;
+
+    this.annotatedMatches = matches;
+    matches.forEach(match => this.matchTexts.set(match, this.matchText(match)));
+    this.updateMatchUi();
+    this.highlighting = false;
+    this.recordDuration(performance.now() - startTime);
+
+    // the page changed while highlighting, matches there may be stale
+    this.flushPendingRoots();
   }
 
-  private highlightTemplate(text: string) {
-    const span = document.createElement('span');
-    const config: HighlightConfig = JSON.parse(this.value);
-    span.style.cssText = config.highlightStyle || 'background-color:yellow;';
-    span.innerHTML = text;
-    return span;
+  private excludeSelected(matches: Match[]) {
+    return this.config.excludeSelf ?
+        matches.filter(match => !match.some(r => this.isSelected(r))) :
+        matches;
   }
 
+  // returns all occurrences of the text in the index
+  private findMatches(index: TextIndex, text: string) {
+    const pattern = buildPattern(text, this.matchOptions(text));
+    // invalid regex, nothing to highlight
+    if (!pattern) return [];
+    return findAll(index.text, pattern)
+        .map(([start, end]) => index.toMatch(start, end));
+  }
 
-  private annotateTextNode(node: Text, text: string) {
-    // if its whole match
-    if (!node.textContent) return;
-    if (node.textContent.trim() === text) {
-      const replaceNode = this.highlightTemplate(node.textContent);
-      node.replaceWith(replaceNode);
-      this.annotatedNodes.add(replaceNode);
-    } else {
-      const matchIndex = node.textContent.indexOf(text);
-      if (matchIndex !== -1) {
-        // split before and after the curSelectedText
-        const nodeAfterSplit = node.splitText(matchIndex);
-        const remainNode = nodeAfterSplit.splitText(text.length);
-        const replaceNode = this.highlightTemplate(text);
-        nodeAfterSplit.replaceWith(replaceNode);
-        this.annotatedNodes.add(replaceNode);
-
-        // recursively annoate it
-        this.annotateTextNode(remainNode, text);
-      }
+  // identifiers are matched with identifier boundaries with `smartSelection`
+  // on, so `id` does not match within `width`
+  private matchOptions(text: string): MatchOptions {
+    const config = this.config;
+    return {
+      ...config,
+      identifier:
+          !!config.smartSelection && !config.regex && isIdentifier(text),
+    };
+  }
+
+  // returns true if the range overlaps with current selection
+  private isSelected(range: Range) {
+    const selection = window.getSelection();
+    if (!selection || !selection.rangeCount) return false;
+    const selected = selection.getRangeAt(0);
+    // ranges from different roots can not be compared
+    if (selected.startContainer.getRootNode() !==
+        range.startContainer.getRootNode()) {
+      return false;
     }
+    return range.compareBoundaryPoints(Range.END_TO_START, selected) < 0 &&
+        range.compareBoundaryPoints(Range.START_TO_END, selected) > 0;
   }
 
-  private textNodesUnder(el: Element|ShadowRoot) {
-    let node: Node|null;
-    const textNodes: Text[] = [];
-    const walk = document.createTreeWalker(
-        el, NodeFilter.SHOW_TEXT, {
-          acceptNode: node => {
-            const config: HighlightConfig = JSON.parse(this.value);
-            // exclude current node
-            if (config.excludeSelf) {
-              const currentSelection = window.getSelection();
-              if (currentSelection && currentSelection.containsNode(node)) {
-                // for multiple occurrences, handle them separately
-                const multiOccurrences =
-                    new RegExp(`(${currentSelection.toString()}).*\\1`)
-                        .test(node.textContent || '');
-
-                if (!multiOccurrences) {
-                  return NodeFilter.FILTER_REJECT;
-                } else {
-                  // keep spliting the nodes and do the same on the remaining
-                  const nodeAfterSplit =
-                      (node as Text)
-                          .splitText(
-                              (node.textContent ||
-                               '').indexOf(currentSelection.toString()) +
-                              currentSelection.toString().length);
-                  // if selection is in second half, then accept current node
-                  // otherwise reject it as it contains the current selection
-                  return currentSelection.containsNode(nodeAfterSplit) ?
-                      NodeFilter.FILTER_ACCEPT :
-                      NodeFilter.FILTER_REJECT;
-                }
-              }
-            }
-
-            // filter out style tag, do not modify style
-            if (this.hasParentInChain(node, ["style"])) {
-              return NodeFilter.FILTER_REJECT;
-            }
-
-            // exclude defined parent selectors
-            // will be a huge performance hit
-            if (config.excludeParents && config.excludeParents.length &&
-                this.hasParentInChain(node, config.excludeParents)) {
-              return NodeFilter.FILTER_REJECT;
-            }
-            return NodeFilter.FILTER_ACCEPT;
-          }
-        },
-        false);
-    while (node = walk.nextNode()) {
-      if (node) textNodes.push(node as Text);
-    }
-    return textNodes;
+  // shadow roots found on the way are watched for changes too
+  private textNodesUnder(root: Node) {
+    return collectTextNodes(
+        root, this.config.excludeParents,
+        shadowRoot => this.watcher.observeShadowRoot(shadowRoot));
   }
 
   private hasParentInChain(curNode: Node, selectors: string[]) {
@@ -0,0 +1,132 @@
+import {UI_HOST_ATTRIBUTE} from '../utils';
+
+import {Annotation} from './annotations';
+
+/** Actions on annotations listed in the panel. */
+export interface AnnotationsPanelActions {
+  onSelect(annotation: Annotation): void;
+  onEdit(annotation: Annotation): void;
+  onRecolor(annotation: Annotation, color: string): void;
+  onRemove(annotation: Annotation): void;
+}
+
+/**
+ * Floating list of annotations of the page, the ones that could not be
+ * found on the page any more are greyed out.
+ */
+export class AnnotationsPanel {
+  private elId = 'extension-page-annotations';
+  private list?: HTMLElement;
+
+  constructor(private actions: AnnotationsPanelActions) {}
+
+  // anchored tells which annotations were found on the page
+  update(annotations: Annotation[], anchored: (a: Annotation) => boolean) {
+    if (!annotations.length) {
+      this.remove();
+      return;
+    }
+    if (!this.list) this.list = this.create();
+
+    this.list.textContent = '';
+    annotations.forEach(annotation => {
+      const found = anchored(annotation);
+      const item = document.createElement('li');
+      item.classList.toggle('orphaned', !found);
+      const quote = annotation.selector.exact;
+      item.title = found ? quote : `Not found on the page: ${quote}`;
+
+      const color = document.createElement('input');
+      color.type = 'color';
+      color.value = annotation.color;
+      color.onchange = () => this.actions.onRecolor(annotation, color.value);
+      const label = document.createElement('span');
+      label.textContent = annotation.note || annotation.selector.exact;
+      if (found) label.onclick = () => this.actions.onSelect(annotation);
+      const edit = document.createElement('button');
+      edit.textContent = '✎';
+      edit.title = 'edit note';
+      edit.onclick = () => this.actions.onEdit(annotation);
+      const remove = document.createElement('button');
+      remove.textContent = '×';
+      remove.title = 'remove';
+      remove.onclick = () => this.actions.onRemove(annotation);
+
+      item.appendChild(color);
+      item.appendChild(label);
+      item.appendChild(edit);
+      item.appendChild(remove);
+      this.list!.appendChild(item);
+    });
+  }
+
+  remove() {
+    const panelEl = document.getElementById(this.elId);
+    if (panelEl) panelEl.remove();
+    this.list = undefined;
+  }
+
+  private create() {
+    const container = document.createElement('div');
+    container.id = this.elId;
+    container.setAttribute(UI_HOST_ATTRIBUTE, '');
+    const containerStyle = document.createElement('style');
+    containerStyle.textContent = `
+      :host {
+        position: fixed;
+        bottom: 20px;
+        left: 20px;
+        z-index: 1000;
+      }
+      ul {
+        max-height: 200px;
+        overflow-y: auto;
+        margin: 0;
+        padding: 4px;
+        border-radius: 4px;
+        background: white;
+        box-shadow: 0 1px 3px 0 rgba(0, 0, 0, 0.2);
+      }
+      li {
+        list-style: none;
+        display: flex;
+        align-items: center;
+        max-width: 280px;
+        font: 12px/20px Roboto, sans-serif;
+        color: black;
+      }
+      li.orphaned span {
+        color: #999;
+        text-decoration: line-through;
+        cursor: default;
+      }
+      input {
+        width: 16px;
+        height: 16px;
+        padding: 0;
+        border: none;
+      }
+      span {
+        flex: 1;
+        margin: 0 4px;
+        overflow: hidden;
+        white-space: nowrap;
+        text-overflow: ellipsis;
+        cursor: pointer;
+      }
+      button {
+        border: none;
+        background: none;
+        cursor: pointer;
+      }
+        `;
+    const shadowContainer = container.attachShadow({mode: 'open'});
+    shadowContainer.appendChild(containerStyle);
+    const list = document.createElement('ul');
+    shadowContainer.appendChild(list);
+
+    // add it to the page
+    document.body.appendChild(container);
+    return list;
+  }
+}
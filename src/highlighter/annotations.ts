@@ -0,0 +1,80 @@
+import {platform} from '../platform';
+import {FeatureSchema} from '../schema';
+
+import {DEFAULT_PIN_COLORS} from './config';
+import {RendererType} from './renderer';
+import {TextQuoteSelector} from './text-quote';
+
+/** A passage marked on a page, with a note. */
+export interface Annotation {
+  id: string;
+  selector: TextQuoteSelector;
+  note: string;
+  color: string;
+  created: number;
+}
+
+/** Config of page annotations, stored as the feature value. */
+export interface AnnotationsConfig {
+  annotateShortcut?: string;
+  colors?: string[];
+  renderer?: RendererType;
+  excludeParents?: string[];
+  noHighlightWithin?: string[];
+}
+
+/** Name of the annotations feature, its settings are stored under it. */
+export const ANNOTATIONS_NAME = 'Page Annotations';
+
+/** Schema of `AnnotationsConfig`. */
+export const ANNOTATIONS_CONFIG_SCHEMA: FeatureSchema = {
+  annotateShortcut: {
+    type: 'string',
+    default: 'Alt+KeyA',
+    format: 'shortcut',
+    description: 'annotate the selection',
+  },
+  colors: {
+    type: 'string[]',
+    default: DEFAULT_PIN_COLORS,
+    format: 'color',
+    description: 'colors of new annotations, in order',
+  },
+  renderer: {
+    type: 'string',
+    default: 'auto',
+    enum: ['auto', 'highlight-api', 'span'],
+    description: 'how annotations are painted',
+  },
+  excludeParents: {
+    type: 'string[]',
+    default: [],
+    format: 'selector',
+    description: 'text within given selectors is never annotated',
+  },
+  noHighlightWithin: {
+    type: 'string[]',
+    default: ['input', 'textarea', '[contentEditable]'],
+    format: 'selector',
+    description: 'the shortcut is left to the page in given selectors',
+  },
+};
+
+// annotations are kept per page, the hash is left out as it usually only
+// scrolls within the page
+function storageKey(url: string) {
+  const {origin, pathname, search} = new URL(url);
+  return `annotations:${origin}${pathname}${search}`;
+}
+
+/** Annotations saved for the page at url. */
+export async function loadAnnotations(url: string) {
+  return (await platform().local.get<Annotation[]>(storageKey(url))) || [];
+}
+
+/** Save annotations of the page at url, replacing previous ones. */
+export function saveAnnotations(url: string, annotations: Annotation[]) {
+  const key = storageKey(url);
+  return annotations.length ? platform().local.set(key, annotations) :
+                              platform().local.remove(key);
+}
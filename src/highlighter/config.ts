@@ -0,0 +1,228 @@
+import {FeatureSchema} from '../schema';
+import {escapeRegExp} from '../utils';
+
+import {RendererType} from './renderer';
+
+/** Config of the selection highlighter, stored as the feature value. */
+export interface HighlightConfig {
+  highlightStyle?: string;
+  activeHighlightStyle?: string;
+  renderer?: RendererType;
+  excludeSelf?: boolean;
+  excludeParents?: string[];
+  noHighlightWithin?: string[];
+  excludeUrlPatterns?: string[];
+  minCharSize?: number;
+  caseSensitive?: boolean;
+  wholeWord?: boolean;
+  normalizeWhitespace?: boolean;
+  regex?: boolean;
+  smartSelection?: boolean;
+  identifierMinCharSize?: number;
+  nextMatchShortcut?: string;
+  previousMatchShortcut?: string;
+  showMinimap?: boolean;
+  pinShortcut?: string;
+  pinColors?: string[];
+  maxMatches?: number;
+  crossFrame?: boolean;
+  clearShortcut?: string;
+  searchShortcut?: string;
+  searchHistorySize?: number;
+  siteProfiles?: SiteProfile[];
+}
+
+/** Overrides of the config for urls matching the pattern. */
+export interface SiteProfile {
+  name: string;
+  urlPattern: string;
+  overrides: Partial<Omit<HighlightConfig, 'siteProfiles'>>;
+}
+
+/** returns true if the url matches the profile, invalid patterns never do */
+export function profileMatches(profile: SiteProfile, url: string) {
+  try {
+    return !!profile.urlPattern && new RegExp(profile.urlPattern).test(url);
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Merge overrides of all profiles matching the url over the config, in the
+ * order profiles are listed, later ones win.
+ */
+export function resolveConfig(config: HighlightConfig, url: string) {
+  const profiles =
+      (config.siteProfiles || []).filter(p => profileMatches(p, url));
+  const resolved: HighlightConfig = {...config};
+  profiles.forEach(profile => Object.assign(resolved, profile.overrides));
+  return {config: resolved, profiles};
+}
+
+/** Name of the highlighter feature, its settings are stored under it. */
+export const HIGHLIGHTER_NAME = 'Select To Highlight';
+
+/** Pattern in `excludeUrlPatterns` disabling the highlighter on a host. */
+export function hostExcludePattern(host: string) {
+  return `^https?://${escapeRegExp(host)}/`;
+}
+
+/** Colors of pinned terms when `pinColors` is not set. */
+export const DEFAULT_PIN_COLORS = ['#a0e7ff', '#c6f7c3', '#ffc8e0', '#e0c8ff'];
+
+// all fields but `siteProfiles`, which can be overridden by a profile
+const OVERRIDABLE_SCHEMA: FeatureSchema = {
+  excludeSelf: {
+    type: 'boolean',
+    default: true,
+    description: 'do not highlight the selection itself',
+  },
+  highlightStyle: {
+    type: 'string',
+    default: 'background-color: yellow;',
+    format: 'style',
+    description: 'css styles applied to the highlights',
+  },
+  activeHighlightStyle: {
+    type: 'string',
+    default: 'background-color: orange;',
+    format: 'style',
+    description: 'css styles applied to the match navigated to',
+  },
+  renderer: {
+    type: 'string',
+    default: 'auto',
+    enum: ['auto', 'highlight-api', 'span'],
+    description: 'how highlights are painted',
+  },
+  excludeParents: {
+    type: 'string[]',
+    default: [],
+    format: 'selector',
+    description: 'exclude highlights within given selectors',
+  },
+  noHighlightWithin: {
+    type: 'string[]',
+    default: ['input', 'textarea', '[contentEditable]'],
+    format: 'selector',
+    description: 'no highlight if selection in given selectors',
+  },
+  excludeUrlPatterns: {
+    type: 'string[]',
+    default: [],
+    format: 'regex',
+    description: 'disable for given url patterns',
+  },
+  minCharSize: {
+    type: 'number',
+    default: 3,
+    min: 1,
+    description: 'ignore selection with size below the threshold',
+  },
+  caseSensitive: {
+    type: 'boolean',
+    default: true,
+    description: 'match case',
+  },
+  wholeWord: {
+    type: 'boolean',
+    default: false,
+    description: 'only match whole words',
+  },
+  normalizeWhitespace: {
+    type: 'boolean',
+    default: false,
+    description: 'any run of whitespace matches any other run',
+  },
+  regex: {
+    type: 'boolean',
+    default: false,
+    description: 'treat the selection as a regular expression',
+  },
+  smartSelection: {
+    type: 'boolean',
+    default: false,
+    description:
+        'expand the selection to the identifier around it, for code pages',
+  },
+  identifierMinCharSize: {
+    type: 'number',
+    default: 1,
+    min: 1,
+    description: 'minCharSize of identifiers with smartSelection on',
+  },
+  nextMatchShortcut: {
+    type: 'string',
+    default: 'Alt+ArrowDown',
+    format: 'shortcut',
+    description: 'scroll to the next match',
+  },
+  previousMatchShortcut: {
+    type: 'string',
+    default: 'Alt+ArrowUp',
+    format: 'shortcut',
+    description: 'scroll to the previous match',
+  },
+  showMinimap: {
+    type: 'boolean',
+    default: true,
+    description: 'mark matches along the right edge of the page',
+  },
+  pinShortcut: {
+    type: 'string',
+    default: 'Alt+KeyP',
+    format: 'shortcut',
+    description: 'pin or unpin the selection',
+  },
+  pinColors: {
+    type: 'string[]',
+    default: DEFAULT_PIN_COLORS,
+    format: 'color',
+    description: 'colors used for pinned terms, in order',
+  },
+  maxMatches: {
+    type: 'number',
+    default: 1000,
+    min: 1,
+    description: 'highlight at most this many matches',
+  },
+  crossFrame: {
+    type: 'boolean',
+    default: false,
+    description: 'highlight and clear the term in all frames of the page',
+  },
+  clearShortcut: {
+    type: 'string',
+    default: 'Escape',
+    format: 'shortcut',
+    description: 'clear the highlights',
+  },
+  searchShortcut: {
+    type: 'string',
+    default: 'Alt+KeyF',
+    format: 'shortcut',
+    description: 'type a term to highlight',
+  },
+  searchHistorySize: {
+    type: 'number',
+    default: 10,
+    min: 0,
+    description: 'number of recently searched terms to keep',
+  },
+};
+
+/** Schema of `HighlightConfig`. */
+export const HIGHLIGHT_CONFIG_SCHEMA: FeatureSchema = {
+  ...OVERRIDABLE_SCHEMA,
+  siteProfiles: {
+    type: 'object[]',
+    default: [],
+    description: 'overrides for urls matching a pattern',
+    fields: {
+      name: {type: 'string', required: true},
+      urlPattern: {type: 'string', format: 'regex', required: true},
+      overrides: {type: 'object', required: true, fields: OVERRIDABLE_SCHEMA},
+    },
+  },
+};
@@ -0,0 +1,61 @@
+import {UI_HOST_ATTRIBUTE} from '../utils';
+
+/**
+ * Floating badge showing the active match and total number of matches.
+ */
+export class MatchCounter {
+  private elId = 'extension-selection-highlighter-counter';
+  private label?: HTMLElement;
+
+  // truncated is set when there are more matches than the ones highlighted
+  update(current: number, total: number, truncated = false) {
+    if (!this.label) this.label = this.create();
+    // current is 0 when no match is active yet
+    this.label.textContent =
+        `${current || '-'} / ${total}${truncated ? '+' : ''}`;
+    this.label.classList.toggle('truncated', truncated);
+    this.label.title = truncated ?
+        `Too many matches, only the first ${total} are highlighted` :
+        '';
+  }
+
+  remove() {
+    const counterEl = document.getElementById(this.elId);
+    if (counterEl) counterEl.remove();
+    this.label = undefined;
+  }
+
+  private create() {
+    const container = document.createElement('div');
+    container.id = this.elId;
+    container.setAttribute(UI_HOST_ATTRIBUTE, '');
+    const containerStyle = document.createElement('style');
+    containerStyle.textContent = `
+      :host {
+        position: fixed;
+        top: 10px;
+        right: 20px;
+        z-index: 1000;
+      }
+      span {
+        display: block;
+        padding: 2px 8px;
+        border-radius: 10px;
+        font: 12px/18px Roboto, sans-serif;
+        color: white;
+        background: rgba(0, 0, 0, 0.7);
+      }
+      span.truncated {
+        background: rgba(217, 48, 37, 0.9);
+      }
+        `;
+    const shadowContainer = container.attachShadow({mode: 'open'});
+    shadowContainer.appendChild(containerStyle);
+    const label = document.createElement('span');
+    shadowContainer.appendChild(label);
+
+    // add it to the page
+    document.body.appendChild(container);
+    return label;
+  }
+}
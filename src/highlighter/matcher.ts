@@ -0,0 +1,86 @@
+import {escapeRegExp} from '../utils';
+
+/** Options on how text is matched. */
+export interface MatchOptions {
+  caseSensitive?: boolean;
+  wholeWord?: boolean;
+  normalizeWhitespace?: boolean;
+  regex?: boolean;
+  // the text is an identifier, not matched inside longer identifiers
+  identifier?: boolean;
+}
+
+// characters identifiers are made of in most languages
+const IDENTIFIER_CHAR = /[\w$]/;
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/** returns true if the text is a single identifier, e.g: `fooBar_baz` */
+export function isIdentifier(text: string) {
+  return IDENTIFIER.test(text);
+}
+
+/**
+ * Expand [start, end) of the text to the whole identifier it is part of,
+ * surrounding whitespace is left out. Returns undefined if the range has
+ * anything else than identifier characters.
+ */
+export function identifierBounds(text: string, start: number, end: number) {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  if (start === end) return undefined;
+  for (let i = start; i < end; i++) {
+    if (!IDENTIFIER_CHAR.test(text[i])) return undefined;
+  }
+  while (start > 0 && IDENTIFIER_CHAR.test(text[start - 1])) start--;
+  while (end < text.length && IDENTIFIER_CHAR.test(text[end])) end++;
+  return [start, end] as [number, number];
+}
+
+/**
+ * Build the pattern to search for given text.
+ *
+ * Text is always escaped unless `regex` is set, returns undefined if the
+ * text is not a valid regex in that case.
+ */
+export function buildPattern(text: string, options: MatchOptions = {}) {
+  let source: string;
+  if (options.regex) {
+    source = text;
+  } else if (options.normalizeWhitespace) {
+    // any run of whitespace or newlines matches any other run
+    source = text.split(/\s+/).map(escapeRegExp).join('\\s+');
+  } else {
+    source = escapeRegExp(text);
+  }
+
+  if (options.identifier) {
+    source = `(?<![\\w$])(?:${source})(?![\\w$])`;
+  } else if (options.wholeWord) {
+    source = `(?<!\\w)(?:${source})(?!\\w)`;
+  }
+
+  try {
+    return new RegExp(source, options.caseSensitive === false ? 'gi' : 'g');
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/** yields [start, end) offsets of matches of the pattern in text, in order */
+export function* matchOffsets(text: string, pattern: RegExp) {
+  const regex = new RegExp(pattern.source, pattern.flags);
+  let match: RegExpExecArray|null;
+  while (match = regex.exec(text)) {
+    // skip empty matches, they can not be highlighted
+    if (!match[0].length) {
+      regex.lastIndex++;
+      continue;
+    }
+    yield [match.index, match.index + match[0].length] as [number, number];
+  }
+}
+
+/** returns [start, end) offsets of all matches of the pattern in text */
+export function findAll(text: string, pattern: RegExp) {
+  return Array.from(matchOffsets(text, pattern));
+}
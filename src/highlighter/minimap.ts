@@ -0,0 +1,130 @@
+import {UI_HOST_ATTRIBUTE} from '../utils';
+import {Match} from './text-index';
+
+/**
+ * Track along the right edge of the viewport marking the vertical
+ * position of every match on the page, like scrollbar annotations in IDEs.
+ */
+export class Minimap {
+  private elId = 'extension-selection-highlighter-minimap';
+  private host?: HTMLElement;
+  private track?: HTMLElement;
+  private matches: Match[] = [];
+  private activeIndex = -1;
+  private frame?: number;
+
+  // re-position on next frame, scroll and resize can fire very often
+  private scheduleRefresh = () => {
+    if (this.frame !== undefined) return;
+    this.frame = requestAnimationFrame(() => {
+      this.frame = undefined;
+      this.refresh();
+    });
+  };
+
+  constructor(private onSelect: (index: number) => void) {}
+
+  update(matches: Match[]) {
+    this.matches = matches;
+    if (!this.track) {
+      this.host = this.create();
+      this.track = this.host.shadowRoot!.querySelector('section')!;
+      // scroll of inner containers moves matches too, so listen in capture
+      document.addEventListener('scroll', this.scheduleRefresh, true);
+      window.addEventListener('resize', this.scheduleRefresh);
+    }
+    this.refresh();
+  }
+
+  setActive(index: number) {
+    this.activeIndex = index;
+    if (!this.track) return;
+    this.track.querySelectorAll('div').forEach(marker => {
+      marker.classList.toggle(
+          'active', Number(marker.dataset.index) === index);
+    });
+  }
+
+  remove() {
+    document.removeEventListener('scroll', this.scheduleRefresh, true);
+    window.removeEventListener('resize', this.scheduleRefresh);
+    if (this.frame !== undefined) cancelAnimationFrame(this.frame);
+    this.frame = undefined;
+
+    const minimapEl = document.getElementById(this.elId);
+    if (minimapEl) minimapEl.remove();
+    this.host = undefined;
+    this.track = undefined;
+    this.matches = [];
+    this.activeIndex = -1;
+  }
+
+  private refresh() {
+    const track = this.track;
+    if (!track || !this.host) return;
+
+    // leave the native scrollbar usable
+    const scrollbarWidth =
+        window.innerWidth - document.documentElement.clientWidth;
+    this.host.style.right = `${scrollbarWidth}px`;
+
+    const pageHeight = document.documentElement.scrollHeight;
+    const markers = document.createDocumentFragment();
+    this.matches.forEach((match, index) => {
+      const rect = match[0].getBoundingClientRect();
+      // not rendered, e.g: in a collapsed section
+      if (!rect.width && !rect.height) return;
+
+      const marker = document.createElement('div');
+      marker.dataset.index = String(index);
+      marker.style.top = `${(rect.top + window.scrollY) / pageHeight * 100}%`;
+      if (index === this.activeIndex) marker.classList.add('active');
+      marker.onclick = () => this.onSelect(index);
+      markers.appendChild(marker);
+    });
+    track.textContent = '';
+    track.appendChild(markers);
+  }
+
+  private create() {
+    const container = document.createElement('div');
+    container.id = this.elId;
+    container.setAttribute(UI_HOST_ATTRIBUTE, '');
+    const containerStyle = document.createElement('style');
+    containerStyle.textContent = `
+      :host {
+        position: fixed;
+        top: 0;
+        right: 0;
+        bottom: 0;
+        width: 8px;
+        z-index: 1000;
+        pointer-events: none;
+      }
+      section {
+        position: relative;
+        height: 100%;
+      }
+      div {
+        position: absolute;
+        left: 0;
+        width: 100%;
+        height: 3px;
+        background: #dc8e00;
+        cursor: pointer;
+        pointer-events: auto;
+      }
+      div.active {
+        background: #d93025;
+      }
+        `;
+    const shadowContainer = container.attachShadow({mode: 'open'});
+    shadowContainer.appendChild(containerStyle);
+    const track = document.createElement('section');
+    shadowContainer.appendChild(track);
+
+    // add it to the page
+    document.body.appendChild(container);
+    return container;
+  }
+}
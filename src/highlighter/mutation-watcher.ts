@@ -0,0 +1,107 @@
+import {debounce, UI_HOST_ATTRIBUTE} from '../utils';
+
+/**
+ * Watches the page and its shadow roots for changes, reporting the subtrees
+ * that were added or changed in batches.
+ *
+ * Shadow roots in added content are picked up from the mutation records,
+ * ones already on the page are added with `observeShadowRoot` as they are
+ * found, e.g. while walking the text of the page.
+ *
+ * Changes made by the highlighter itself should be wrapped in `ignore` so
+ * they are not reported back.
+ */
+export class MutationWatcher {
+  private observer = new MutationObserver(records => this.collect(records));
+  private observed = new WeakSet<Node>();
+  private changed = new Set<Node>();
+  private connected = false;
+
+  private flush = debounce(() => {
+    if (!this.connected) return;
+    const changed = Array.from(this.changed);
+    this.changed.clear();
+    // only report the outermost ones, inner ones are covered by them, can be
+    // empty when nodes were only removed
+    this.onChange(changed.filter(
+        node =>
+            !changed.some(other => other !== node && other.contains(node))));
+  }, 300);
+
+  constructor(private onChange: (roots: Node[]) => void) {}
+
+  /** start watching root, without the shadow roots already under it */
+  observe(root: Node) {
+    this.connected = true;
+    this.observeNode(root);
+  }
+
+  /** also watch a shadow root found on the page, while connected */
+  observeShadowRoot(root: ShadowRoot) {
+    if (this.connected) this.observeNode(root);
+  }
+
+  /** run fn without reporting the changes it makes */
+  ignore<T>(fn: () => T): T {
+    if (!this.connected) return fn();
+    // keep changes from the page made before fn
+    this.collect(this.observer.takeRecords());
+    const result = fn();
+    this.observer.takeRecords();
+    return result;
+  }
+
+  disconnect() {
+    this.connected = false;
+    this.observer.disconnect();
+    this.observed = new WeakSet();
+    this.changed.clear();
+  }
+
+  private observeNode(node: Node) {
+    if (this.observed.has(node)) return;
+    this.observed.add(node);
+    this.observer.observe(
+        node, {childList: true, subtree: true, characterData: true});
+  }
+
+  // subtree observation does not cross shadow boundaries
+  private observeShadowRoots(root: Node) {
+    let nodes: Array<Element|ShadowRoot> = [];
+    if (root instanceof Element || root instanceof ShadowRoot) nodes = [root];
+    while (nodes.length) {
+      const node = nodes.pop()!;
+      if (node instanceof ShadowRoot) this.observeNode(node);
+
+      // add all shadow roots, except the ones of our own ui
+      const isOwnUi = (n: Element) => n.hasAttribute(UI_HOST_ATTRIBUTE);
+      nodes = nodes.concat(Array.from(node.querySelectorAll('*'))
+                               .filter(n => !!n.shadowRoot && !isOwnUi(n))
+                               .map(n => n.shadowRoot!));
+      const curShadowRoot = (node as Element).shadowRoot;
+      if (curShadowRoot && !isOwnUi(node as Element)) {
+        nodes.push(curShadowRoot);
+      }
+    }
+  }
+
+  private collect(records: MutationRecord[]) {
+    if (!records.length) return;
+    records.forEach(record => {
+      if (record.type === 'characterData') {
+        this.changed.add(record.target);
+        return;
+      }
+      record.addedNodes.forEach(node => {
+        if (node instanceof Element && node.hasAttribute(UI_HOST_ATTRIBUTE)) {
+          return;
+        }
+        this.changed.add(node);
+        // new shadow hosts may come with the added nodes
+        this.observeShadowRoots(node);
+      });
+    });
+    // removed nodes are not reported, they only make matches stale
+    this.flush();
+  }
+}
@@ -0,0 +1,100 @@
+import {UI_HOST_ATTRIBUTE} from '../utils';
+
+/** A term that stays highlighted until unpinned. */
+export interface PinnedTerm {
+  id: number;
+  text: string;
+  color: string;
+  count: number;
+}
+
+/**
+ * Floating list of pinned terms, each with its color, number of matches
+ * and a button to unpin it.
+ */
+export class PinnedTermsPanel {
+  private elId = 'extension-selection-highlighter-pinned';
+  private list?: HTMLElement;
+
+  constructor(private onUnpin: (term: PinnedTerm) => void) {}
+
+  update(terms: PinnedTerm[]) {
+    if (!terms.length) {
+      this.remove();
+      return;
+    }
+    if (!this.list) this.list = this.create();
+
+    this.list.textContent = '';
+    terms.forEach(term => {
+      const item = document.createElement('li');
+      item.style.backgroundColor = term.color;
+      item.title = term.text;
+      const label = document.createElement('span');
+      label.textContent = `${term.text} (${term.count})`;
+      const unpin = document.createElement('button');
+      unpin.textContent = '×';
+      unpin.title = 'unpin';
+      unpin.onclick = () => this.onUnpin(term);
+      item.appendChild(label);
+      item.appendChild(unpin);
+      this.list!.appendChild(item);
+    });
+  }
+
+  remove() {
+    const panelEl = document.getElementById(this.elId);
+    if (panelEl) panelEl.remove();
+    this.list = undefined;
+  }
+
+  private create() {
+    const container = document.createElement('div');
+    container.id = this.elId;
+    container.setAttribute(UI_HOST_ATTRIBUTE, '');
+    const containerStyle = document.createElement('style');
+    containerStyle.textContent = `
+      :host {
+        position: fixed;
+        top: 40px;
+        right: 20px;
+        z-index: 1000;
+      }
+      ul {
+        margin: 0;
+        padding: 0;
+      }
+      li {
+        list-style: none;
+        display: flex;
+        align-items: center;
+        max-width: 240px;
+        margin-bottom: 4px;
+        padding: 2px 4px 2px 8px;
+        border-radius: 10px;
+        font: 12px/18px Roboto, sans-serif;
+        color: black;
+        box-shadow: 0 1px 3px 0 rgba(0, 0, 0, 0.2);
+      }
+      span {
+        flex: 1;
+        overflow: hidden;
+        white-space: nowrap;
+        text-overflow: ellipsis;
+      }
+      button {
+        border: none;
+        background: none;
+        cursor: pointer;
+      }
+        `;
+    const shadowContainer = container.attachShadow({mode: 'open'});
+    shadowContainer.appendChild(containerStyle);
+    const list = document.createElement('ul');
+    shadowContainer.appendChild(list);
+
+    // add it to the page
+    document.body.appendChild(container);
+    return list;
+  }
+}
@@ -0,0 +1,97 @@
+import {SpanRenderer, textNodesInRange} from './renderer';
+import {collectTextNodes, TextIndex} from './text-index';
+
+const STYLE = 'background-color: yellow;';
+const ACTIVE_STYLE = 'background-color: orange;';
+
+// ranges of every occurrence of text in the body
+function findRanges(text: string) {
+  const index = new TextIndex(collectTextNodes(document.body));
+  const ranges: Range[] = [];
+  let start = index.text.indexOf(text);
+  while (start !== -1) {
+    ranges.push(...index.toMatch(start, start + text.length));
+    start = index.text.indexOf(text, start + text.length);
+  }
+  return ranges;
+}
+
+describe('SpanRenderer', () => {
+  const html = '<p>alpha beta <em>alpha</em>beta</p><p>al<b>pha</b></p>';
+
+  beforeEach(() => {
+    document.body.innerHTML = html;
+  });
+
+  it('wraps every covered text node in a span', () => {
+    const renderer = new SpanRenderer(STYLE, ACTIVE_STYLE);
+    const ranges = findRanges('alpha');
+    renderer.render(ranges);
+
+    const spans = document.querySelectorAll('span');
+    // the last match spans two text nodes
+    expect(spans.length).toBe(4);
+    expect(Array.from(spans).map(span => span.textContent)).toEqual([
+      'alpha', 'alpha', 'al', 'pha'
+    ]);
+    // ranges cover the spans after render
+    expect(ranges.map(range => range.toString())).toEqual([
+      'alpha', 'alpha', 'alpha'
+    ]);
+  });
+
+  it('restores the page on clear', () => {
+    const renderer = new SpanRenderer(STYLE, ACTIVE_STYLE);
+    renderer.render(findRanges('alpha'));
+    renderer.clear();
+
+    expect(document.body.innerHTML).toBe(html);
+    // text nodes are merged back
+    expect(collectTextNodes(document.body).length).toBe(5);
+  });
+
+  it('restores the page when ranges are removed one by one', () => {
+    const renderer = new SpanRenderer(STYLE, ACTIVE_STYLE);
+    const ranges = findRanges('alpha');
+    renderer.render(ranges);
+    ranges.forEach(range => renderer.remove([range]));
+
+    expect(document.body.innerHTML).toBe(html);
+  });
+
+  it('keeps spans of other renderers on clear', () => {
+    const pinned = new SpanRenderer(STYLE, ACTIVE_STYLE);
+    const selection = new SpanRenderer(ACTIVE_STYLE, ACTIVE_STYLE);
+    pinned.render(findRanges('alpha beta'));
+    selection.render(findRanges('beta'));
+    selection.clear();
+
+    expect(document.querySelectorAll('span').length).toBe(1);
+    expect(document.querySelector('span')!.textContent).toBe('alpha beta');
+    pinned.clear();
+    expect(document.body.innerHTML).toBe(html);
+  });
+
+  it('styles only the active ranges', () => {
+    const renderer = new SpanRenderer(STYLE, ACTIVE_STYLE);
+    const ranges = findRanges('alpha');
+    renderer.render(ranges);
+    renderer.setActive([ranges[1]]);
+    renderer.setActive([ranges[0]]);
+
+    const styles = Array.from(document.querySelectorAll('span'))
+                       .map(span => span.style.backgroundColor);
+    expect(styles).toEqual(['orange', 'yellow', 'yellow', 'yellow']);
+  });
+});
+
+describe('textNodesInRange', () => {
+  it('returns covered offsets of each text node', () => {
+    document.body.innerHTML = '<p>foo <b>bar</b> baz</p>';
+    const [range] = findRanges('o bar b');
+
+    expect(textNodesInRange(range).map(({node, start, end}) => {
+      return node.data.slice(start, end);
+    })).toEqual(['o ', 'bar', ' b']);
+  });
+});
@@ -0,0 +1,252 @@
+/** Supported renderer types, `auto` picks the best one available. */
+export type RendererType = 'auto'|'highlight-api'|'span';
+
+/**
+ * Renders ranges as highlights on the page.
+ */
+export interface HighlightRenderer {
+  // paint given ranges in addition to painted ones, ranges stay valid after
+  // render
+  render(ranges: Range[]): void;
+
+  // stop painting given ranges
+  remove(ranges: Range[]): void;
+
+  // paint given ranges with the active style, replaces previous active ones
+  setActive(ranges: Range[]): void;
+
+  // remove everything painted by this renderer
+  clear(): void;
+}
+
+// minimal typings for the CSS Custom Highlight API and constructable
+// stylesheets, not available in the dom lib we compile with
+interface HighlightRegistry {
+  set(name: string, highlight: unknown): void;
+  delete(name: string): boolean;
+}
+
+interface Highlight {
+  priority: number;
+  add(range: Range): void;
+  delete(range: Range): boolean;
+}
+
+interface HighlightConstructor {
+  new(...ranges: Range[]): Highlight;
+}
+
+interface ConstructableStyleSheet extends CSSStyleSheet {
+  replaceSync(text: string): void;
+}
+
+interface StyleSheetHost {
+  adoptedStyleSheets: CSSStyleSheet[];
+}
+
+function highlightRegistry(): HighlightRegistry|undefined {
+  return typeof CSS !== 'undefined' ?
+      (CSS as unknown as {highlights?: HighlightRegistry}).highlights :
+      undefined;
+}
+
+function createHighlight(ranges: Range[]) {
+  const Highlight =
+      (window as unknown as {Highlight: HighlightConstructor}).Highlight;
+  return new Highlight(...ranges);
+}
+
+/** returns true if the CSS Custom Highlight API is available */
+export function isHighlightApiSupported() {
+  return !!highlightRegistry() &&
+      typeof (window as unknown as {Highlight?: HighlightConstructor})
+          .Highlight === 'function' &&
+      'adoptedStyleSheets' in document;
+}
+
+/**
+ * Renderer based on the CSS Custom Highlight API.
+ *
+ * Ranges are registered in `CSS.highlights` and styled with a
+ * `::highlight()` rule adopted by every root the ranges live in, so the
+ * node tree of the page is never touched.
+ */
+export class CssHighlightRenderer implements HighlightRenderer {
+  private sheets = new Map<StyleSheetHost, CSSStyleSheet>();
+  private highlight?: Highlight;
+
+  constructor(
+      private name: string, private style: string,
+      private activeStyle: string) {}
+
+  private get activeName() {
+    return `${this.name}-active`;
+  }
+
+  render(ranges: Range[]) {
+    const registry = highlightRegistry();
+    if (!registry) return;
+
+    if (!this.highlight) {
+      this.highlight = createHighlight([]);
+      registry.set(this.name, this.highlight);
+    }
+    ranges.forEach(range => this.highlight!.add(range));
+
+    // styles do not cross shadow boundaries, adopt the rule in every root
+    ranges.forEach(range => {
+      const root = range.startContainer.getRootNode();
+      if (root instanceof Document || root instanceof ShadowRoot) {
+        this.adoptStyle(root as unknown as StyleSheetHost);
+      }
+    });
+  }
+
+  remove(ranges: Range[]) {
+    if (!this.highlight) return;
+    ranges.forEach(range => this.highlight!.delete(range));
+  }
+
+  setActive(ranges: Range[]) {
+    const registry = highlightRegistry();
+    if (!registry) return;
+
+    const highlight = createHighlight(ranges);
+    // paint on top of the normal highlight
+    highlight.priority = 1;
+    registry.set(this.activeName, highlight);
+  }
+
+  clear() {
+    const registry = highlightRegistry();
+    if (registry) {
+      registry.delete(this.name);
+      registry.delete(this.activeName);
+    }
+    this.highlight = undefined;
+
+    this.sheets.forEach((sheet, root) => {
+      root.adoptedStyleSheets =
+          root.adoptedStyleSheets.filter(adopted => adopted !== sheet);
+    });
+    this.sheets.clear();
+  }
+
+  private adoptStyle(root: StyleSheetHost) {
+    if (this.sheets.has(root)) return;
+    const sheet = new CSSStyleSheet() as ConstructableStyleSheet;
+    sheet.replaceSync(`
+      ::highlight(${this.name}) { ${this.style} }
+      ::highlight(${this.activeName}) { ${this.activeStyle} }
+    `);
+    root.adoptedStyleSheets = [...root.adoptedStyleSheets, sheet];
+    this.sheets.set(root, sheet);
+  }
+}
+
+/**
+ * Renderer that wraps matched text in `<span>` elements.
+ *
+ * Used as a fallback when the CSS Custom Highlight API is not available,
+ * this splits text nodes so it does modify the page.
+ */
+export class SpanRenderer implements HighlightRenderer {
+  private spans = new Set<HTMLSpanElement>();
+  private rangeSpans = new Map<Range, HTMLSpanElement[]>();
+  private activeSpans: HTMLSpanElement[] = [];
+
+  constructor(private style: string, private activeStyle: string) {}
+
+  render(ranges: Range[]) {
+    // wrap from the end so earlier ranges are not affected by the splits
+    [...ranges].reverse().forEach(range => {
+      const wrapped = textNodesInRange(range).reverse().map(
+          ({node, start, end}) => this.wrap(node, start, end));
+      if (!wrapped.length) return;
+      this.rangeSpans.set(range, wrapped);
+      range.setStartBefore(wrapped[wrapped.length - 1]);
+      range.setEndAfter(wrapped[0]);
+    });
+  }
+
+  remove(ranges: Range[]) {
+    ranges.forEach(range => {
+      const spans = this.rangeSpans.get(range);
+      if (!spans) return;
+      spans.forEach(span => {
+        this.unwrap(span);
+        this.spans.delete(span);
+      });
+      this.rangeSpans.delete(range);
+      this.activeSpans = this.activeSpans.filter(s => !spans.includes(s));
+    });
+  }
+
+  setActive(ranges: Range[]) {
+    this.activeSpans.forEach(span => span.style.cssText = this.style);
+    this.activeSpans = ([] as HTMLSpanElement[])
+                           .concat(...ranges.map(
+                               range => this.rangeSpans.get(range) || []));
+    this.activeSpans.forEach(span => span.style.cssText = this.activeStyle);
+  }
+
+  clear() {
+    this.spans.forEach(span => this.unwrap(span));
+    this.spans.clear();
+    this.rangeSpans.clear();
+    this.activeSpans = [];
+  }
+
+  private unwrap(span: HTMLSpanElement) {
+    const parentNode = span.parentNode;
+    // keep children, spans of other renderers may be nested in it
+    span.replaceWith(...Array.from(span.childNodes));
+    // merge with text nodes close to it
+    parentNode && parentNode.normalize();
+  }
+
+  private wrap(node: Text, start: number, end: number) {
+    if (end < node.length) node.splitText(end);
+    const target = start > 0 ? node.splitText(start) : node;
+    const span = document.createElement('span');
+    span.style.cssText = this.style;
+    target.replaceWith(span);
+    span.appendChild(target);
+    this.spans.add(span);
+    return span;
+  }
+}
+
+/** returns all text nodes a range covers, with the covered offsets */
+export function textNodesInRange(range: Range) {
+  const segments: Array<{node: Text, start: number, end: number}> = [];
+  const root = range.commonAncestorContainer;
+  const walk = document.createTreeWalker(
+      root, NodeFilter.SHOW_TEXT, {
+        acceptNode: node => range.intersectsNode(node) ?
+            NodeFilter.FILTER_ACCEPT :
+            NodeFilter.FILTER_REJECT,
+      },
+      false);
+  let node: Node|null = root.nodeType === Node.TEXT_NODE ? root : null;
+  if (!node) node = walk.nextNode();
+  while (node) {
+    const text = node as Text;
+    const start = text === range.startContainer ? range.startOffset : 0;
+    const end = text === range.endContainer ? range.endOffset : text.length;
+    if (end > start) segments.push({node: text, start, end});
+    node = root === text ? null : walk.nextNode();
+  }
+  return segments;
+}
+
+/** create the renderer for given type */
+export function createRenderer(
+    type: RendererType = 'auto', name: string, style: string,
+    activeStyle: string) {
+  // `highlight-api` falls back to spans when the API is not available
+  if (type !== 'span' && isHighlightApiSupported()) {
+    return new CssHighlightRenderer(name, style, activeStyle);
+  }
+  return new SpanRenderer(style, activeStyle);
+}
@@ -0,0 +1,195 @@
+import {debounce, UI_HOST_ATTRIBUTE} from '../utils';
+
+/** What the search panel asks the highlighter to do. */
+export interface SearchActions {
+  // highlight the term, empty to clear, resolves once highlighted and never
+  // rejects
+  search(term: string): Promise<void>;
+  // move to the next or previous match
+  navigate(step: number): void;
+  // term was searched for, worth remembering
+  commit(term: string): void;
+  close(): void;
+}
+
+/**
+ * Floating search box, highlights the term as it's typed and lists recently
+ * searched terms.
+ *
+ * `Enter` moves to the next match, `Shift+Enter` to the previous one and
+ * `Escape` closes it.
+ */
+export class SearchPanel {
+  private elId = 'extension-selection-highlighter-search';
+  private input?: HTMLInputElement;
+  private count?: HTMLElement;
+  private historyList?: HTMLElement;
+
+  // typing fast only searches for the last term
+  private searchLater = debounce(() => {
+    if (this.input) this.actions.search(this.input.value);
+  }, 200);
+
+  constructor(private actions: SearchActions) {}
+
+  get isOpen() {
+    return !!this.input;
+  }
+
+  get hasFocus() {
+    const panelEl = document.getElementById(this.elId);
+    return !!panelEl && document.activeElement === panelEl;
+  }
+
+  get term() {
+    return this.input ? this.input.value : '';
+  }
+
+  /** Show the panel, or focus it if shown, with term filled in if given. */
+  show(history: string[], term?: string) {
+    if (!this.input) this.create();
+    this.updateHistory(history);
+    if (term !== undefined) this.input!.value = term;
+    this.input!.focus();
+    this.input!.select();
+  }
+
+  // current is 0 when no match is active yet
+  updateCount(current: number, total: number, truncated = false) {
+    if (!this.count) return;
+    this.count.textContent = this.term ?
+        `${current || '-'} / ${total}${truncated ? '+' : ''}` :
+        '';
+  }
+
+  updateHistory(history: string[]) {
+    const list = this.historyList;
+    if (!list) return;
+    list.textContent = '';
+    history.forEach(term => {
+      const item = document.createElement('li');
+      const button = document.createElement('button');
+      button.textContent = term;
+      button.title = term;
+      button.onclick = () => {
+        this.input!.value = term;
+        this.input!.focus();
+        this.actions.search(term);
+        this.actions.commit(term);
+      };
+      item.appendChild(button);
+      list.appendChild(item);
+    });
+  }
+
+  remove() {
+    const panelEl = document.getElementById(this.elId);
+    if (panelEl) panelEl.remove();
+    this.input = undefined;
+    this.count = undefined;
+    this.historyList = undefined;
+  }
+
+  private onKeyDown(event: KeyboardEvent) {
+    const term = this.term;
+    if (event.key === 'Escape') {
+      this.actions.close();
+    } else if (event.key === 'Enter' && term) {
+      // search right away, the typed term may still be waiting
+      const step = event.shiftKey ? -1 : 1;
+      this.actions.search(term).then(() => this.actions.navigate(step));
+      this.actions.commit(term);
+    }
+  }
+
+  private create() {
+    const container = document.createElement('div');
+    container.id = this.elId;
+    container.setAttribute(UI_HOST_ATTRIBUTE, '');
+    const containerStyle = document.createElement('style');
+    containerStyle.textContent = `
+      :host {
+        position: fixed;
+        top: 10px;
+        left: 50%;
+        transform: translateX(-50%);
+        width: 320px;
+        z-index: 1001;
+        padding: 8px;
+        border-radius: 4px;
+        background: white;
+        font: 13px/18px Roboto, sans-serif;
+        color: black;
+        box-shadow: 0 2px 1px -1px rgba(0, 0, 0, 0.2),0 1px 1px 0 rgba(0, 0, 0, 0.14),0 1px 3px 0 rgba(0,0,0,.12);
+      }
+      div {
+        display: flex;
+        align-items: center;
+      }
+      input {
+        flex: 1;
+        min-width: 0;
+      }
+      span {
+        margin: 0 6px;
+        color: #666;
+        white-space: nowrap;
+      }
+      button {
+        border: none;
+        background: none;
+        cursor: pointer;
+      }
+      ul {
+        margin: 6px 0 0 0;
+        padding: 0;
+        display: flex;
+        flex-wrap: wrap;
+      }
+      li {
+        list-style: none;
+        max-width: 100%;
+      }
+      li button {
+        max-width: 100%;
+        margin: 0 4px 4px 0;
+        padding: 0 8px;
+        border-radius: 10px;
+        background: #e8eaed;
+        overflow: hidden;
+        white-space: nowrap;
+        text-overflow: ellipsis;
+      }
+        `;
+    const shadowContainer = container.attachShadow({mode: 'open'});
+    shadowContainer.appendChild(containerStyle);
+
+    const row = document.createElement('div');
+    const input = document.createElement('input');
+    input.placeholder = 'highlight on this page';
+    input.oninput = () => this.searchLater();
+    input.onkeydown = event => this.onKeyDown(event);
+    const count = document.createElement('span');
+    const close = document.createElement('button');
+    close.textContent = '×';
+    close.title = 'close';
+    close.onclick = () => this.actions.close();
+    row.appendChild(input);
+    row.appendChild(count);
+    row.appendChild(close);
+    shadowContainer.appendChild(row);
+    const historyList = document.createElement('ul');
+    historyList.title = 'recent terms';
+    shadowContainer.appendChild(historyList);
+
+    // keys typed here are not shortcuts of the page, or of the highlighter
+    ['keydown', 'keyup', 'keypress'].forEach(
+        type => container.addEventListener(type, e => e.stopPropagation()));
+
+    // add it to the page
+    document.body.appendChild(container);
+    this.input = input;
+    this.count = count;
+    this.historyList = historyList;
+  }
+}
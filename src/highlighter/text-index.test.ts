@@ -0,0 +1,94 @@
+import {UI_HOST_ATTRIBUTE} from '../utils';
+
+import {collectTextNodes, TextIndex} from './text-index';
+
+// host with an open shadow root holding given html
+function shadowHost(html: string) {
+  const host = document.createElement('div');
+  host.attachShadow({mode: 'open'}).innerHTML = html;
+  return host;
+}
+
+describe('collectTextNodes', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('walks shadow roots in composed order', () => {
+    document.body.innerHTML = '<p>one</p><p>three</p>';
+    const host = shadowHost('<span>two</span>');
+    document.body.insertBefore(host, document.body.lastChild);
+
+    const text = collectTextNodes(document.body).map(node => node.data);
+    expect(text).toEqual(['one', 'two', 'three']);
+  });
+
+  it('follows slot assignments and falls back to slot content', () => {
+    const host = shadowHost(
+        '<slot name="a"></slot>-<slot name="b">fallback</slot>');
+    host.innerHTML = '<span slot="a">slotted</span>';
+    document.body.appendChild(host);
+
+    const text = collectTextNodes(document.body).map(node => node.data);
+    expect(text).toEqual(['slotted', '-', 'fallback']);
+  });
+
+  it('skips excluded elements, scripts and alfred ui', () => {
+    document.body.innerHTML = `
+        <p>kept</p>
+        <div class="skip"><p>excluded</p></div>
+        <script>var script;</script>
+        <div ${UI_HOST_ATTRIBUTE}>ui</div>`;
+
+    const text = collectTextNodes(document.body, ['.skip'])
+                     .map(node => node.data.trim())
+                     .filter(Boolean);
+    expect(text).toEqual(['kept']);
+  });
+});
+
+describe('TextIndex', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('maps a match across text nodes to a single range', () => {
+    document.body.innerHTML = '<p>foo <b>bar</b> baz</p>';
+    const index = new TextIndex(collectTextNodes(document.body));
+
+    const start = index.text.indexOf('o bar b');
+    const match = index.toMatch(start, start + 'o bar b'.length);
+    expect(match.length).toBe(1);
+    expect(match[0].toString()).toBe('o bar b');
+  });
+
+  it('splits a match at shadow boundaries', () => {
+    document.body.innerHTML = '<p>foo</p>';
+    document.body.appendChild(shadowHost('<p>bar</p>'));
+    const index = new TextIndex(collectTextNodes(document.body));
+
+    const match = index.toMatch(1, 5);
+    expect(match.map(range => range.toString())).toEqual(['oo', 'ba']);
+    expect(match[0].startContainer.getRootNode()).toBe(document);
+    expect(match[1].startContainer.getRootNode())
+        .not.toBe(match[0].startContainer.getRootNode());
+  });
+
+  it('maps a range back to offsets of the flattened text', () => {
+    document.body.innerHTML = '<p>foo <b>bar</b> baz</p>';
+    const index = new TextIndex(collectTextNodes(document.body));
+    const match = index.toMatch(2, 9);
+
+    expect(index.fromRange(match[0])).toEqual([2, 9]);
+  });
+
+  it('returns undefined for ranges outside of the index', () => {
+    document.body.innerHTML = '<p>indexed</p><p>other</p>';
+    const nodes = collectTextNodes(document.body);
+    const index = new TextIndex(nodes.slice(0, 1));
+    const range = document.createRange();
+    range.selectNodeContents(nodes[1]);
+
+    expect(index.fromRange(range)).toBeUndefined();
+  });
+});
@@ -0,0 +1,174 @@
+import {compareNodeOrder, UI_HOST_ATTRIBUTE} from '../utils';
+
+/** A single occurrence on the page, one range for each root it spans. */
+export type Match = Range[];
+
+// elements whose text is never rendered
+const NON_TEXT_ELEMENTS = ['style', 'script', 'noscript', 'template'];
+
+// children in the composed tree, which is the order text is rendered in
+function composedChildren(node: Node): Node[] {
+  const element = node as Element;
+  if (element.shadowRoot) {
+    return Array.from(element.shadowRoot.childNodes);
+  }
+  if (element.localName === 'slot') {
+    const assigned = (element as HTMLSlotElement).assignedNodes();
+    // fallback content is rendered when nothing is slotted
+    if (assigned.length) return assigned;
+  }
+  return Array.from(node.childNodes);
+}
+
+/**
+ * Walk all text nodes under root in composed tree order, descending into
+ * open shadow roots and following slot assignments.
+ *
+ * Subtrees of elements matching any of `excludeSelectors` are skipped.
+ * `onShadowRoot` is called for every shadow root the walk descends into.
+ */
+export function* walkTextNodes(
+    root: Node, excludeSelectors: string[] = [],
+    onShadowRoot?: (root: ShadowRoot) => void) {
+  const stack: Node[] = [root];
+  while (stack.length) {
+    const node = stack.pop()!;
+    if (node.nodeType === Node.TEXT_NODE) {
+      yield node as Text;
+      continue;
+    }
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      const element = node as Element;
+      if (NON_TEXT_ELEMENTS.includes(element.localName)) continue;
+      // never match text of our own ui
+      if (element.hasAttribute(UI_HOST_ATTRIBUTE)) continue;
+      if (excludeSelectors.some(selector => element.matches(selector))) {
+        continue;
+      }
+      if (element.shadowRoot && onShadowRoot) onShadowRoot(element.shadowRoot);
+    }
+    // push in reverse so children are visited in order
+    stack.push(...composedChildren(node).reverse());
+  }
+}
+
+/** Collect all text nodes under root, see `walkTextNodes`. */
+export function collectTextNodes(
+    root: Node, excludeSelectors: string[] = [],
+    onShadowRoot?: (root: ShadowRoot) => void) {
+  return Array.from(walkTextNodes(root, excludeSelectors, onShadowRoot));
+}
+
+/**
+ * returns true if text under the node would be skipped by
+ * `collectTextNodes` because of one of its ancestors.
+ */
+export function hasExcludedAncestor(
+    node: Node, excludeSelectors: string[] = []) {
+  let walkNode = node.parentElement;
+  while (walkNode) {
+    const element = walkNode;
+    if (NON_TEXT_ELEMENTS.includes(element.localName) ||
+        element.hasAttribute(UI_HOST_ATTRIBUTE) ||
+        excludeSelectors.some(selector => element.matches(selector))) {
+      return true;
+    }
+    walkNode = walkNode.parentElement;
+  }
+  return false;
+}
+
+/** compare matches by their position in the document */
+export function compareMatches(a: Match, b: Match) {
+  const rangeA = a[0];
+  const rangeB = b[0];
+  if (rangeA.startContainer === rangeB.startContainer) {
+    return rangeA.startOffset - rangeB.startOffset;
+  }
+  return compareNodeOrder(rangeA.startContainer, rangeB.startContainer);
+}
+
+/**
+ * Flattened text of a list of text nodes.
+ *
+ * Matches found in `text` can be mapped back to ranges on the page, even
+ * when they span multiple text nodes or shadow roots.
+ */
+export class TextIndex {
+  readonly text: string;
+
+  // offset in `text` where each node starts
+  private starts: number[] = [];
+
+  constructor(readonly nodes: Text[]) {
+    let text = '';
+    nodes.forEach(node => {
+      this.starts.push(text.length);
+      text += node.data;
+    });
+    this.text = text;
+  }
+
+  /**
+   * Map [start, end) of the flattened text to ranges on the page.
+   *
+   * A range can not cross a shadow boundary, so the match is split into
+   * one range for every consecutive run of nodes sharing the same root.
+   */
+  toMatch(start: number, end: number): Match {
+    const ranges: Range[] = [];
+    let current: Range|undefined;
+    let currentRoot: Node|undefined;
+    for (let i = this.nodeIndexAt(start); i < this.nodes.length; i++) {
+      const nodeStart = this.starts[i];
+      if (nodeStart >= end) break;
+      const node = this.nodes[i];
+      const from = Math.max(start - nodeStart, 0);
+      const to = Math.min(end - nodeStart, node.length);
+      if (to <= from) continue;
+
+      const root = node.getRootNode();
+      if (!current || root !== currentRoot) {
+        current = document.createRange();
+        current.setStart(node, from);
+        currentRoot = root;
+        ranges.push(current);
+      }
+      current.setEnd(node, to);
+    }
+    return ranges;
+  }
+
+  /**
+   * Map text of a range on the page back to [start, end) of the flattened
+   * text, undefined if none of the nodes are in the range.
+   */
+  fromRange(range: Range): [number, number]|undefined {
+    let start: number|undefined;
+    let end: number|undefined;
+    this.nodes.forEach((node, i) => {
+      if (!range.intersectsNode(node)) return;
+      const from = node === range.startContainer ? range.startOffset : 0;
+      const to = node === range.endContainer ? range.endOffset : node.length;
+      if (to <= from) return;
+      if (start === undefined) start = this.starts[i] + from;
+      end = this.starts[i] + to;
+    });
+    return start === undefined ? undefined : [start, end!];
+  }
+
+  // index of the node that contains given offset, binary search
+  private nodeIndexAt(offset: number) {
+    let low = 0;
+    let high = this.starts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.starts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low;
+  }
+}
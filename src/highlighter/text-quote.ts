@@ -0,0 +1,75 @@
+import {buildPattern, matchOffsets} from './matcher';
+
+/**
+ * Selects text by quoting it along with the text around it, so it can be
+ * found again after the page changed a bit.
+ */
+export interface TextQuoteSelector {
+  exact: string;
+  prefix: string;
+  suffix: string;
+  // offset in the page text when created, a hint to pick among candidates
+  start: number;
+}
+
+// length of the context kept on each side
+const CONTEXT_LENGTH = 32;
+
+/** Describe [start, end) of the text with a quote selector. */
+export function describeQuote(
+    text: string, start: number, end: number): TextQuoteSelector {
+  return {
+    exact: text.slice(start, end),
+    prefix: text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+    suffix: text.slice(end, end + CONTEXT_LENGTH),
+    start,
+  };
+}
+
+function commonPrefixLength(a: string, b: string) {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  return i;
+}
+
+function commonSuffixLength(a: string, b: string) {
+  let i = 0;
+  while (i < a.length && i < b.length &&
+         a[a.length - 1 - i] === b[b.length - 1 - i]) {
+    i++;
+  }
+  return i;
+}
+
+/**
+ * Find [start, end) of the quote in the text, undefined if it's gone.
+ *
+ * Whitespace may have changed, among all occurrences the one with the most
+ * matching context wins, the distance to the old position breaks ties.
+ */
+export function anchorQuote(
+    text: string, selector: TextQuoteSelector): [number, number]|undefined {
+  if (!selector.exact.trim()) return undefined;
+  const pattern = buildPattern(selector.exact, {normalizeWhitespace: true});
+  if (!pattern) return undefined;
+
+  let best: [number, number]|undefined;
+  let bestScore = -Infinity;
+  const offsets = matchOffsets(text, pattern);
+  for (let next = offsets.next(); !next.done; next = offsets.next()) {
+    const [start, end] = next.value as [number, number];
+    const prefix = commonSuffixLength(
+        text.slice(Math.max(0, start - selector.prefix.length), start),
+        selector.prefix);
+    const suffix = commonPrefixLength(
+        text.slice(end, end + selector.suffix.length), selector.suffix);
+    // less than a char of context for the whole distance
+    const distance = Math.abs(start - selector.start) / (text.length + 1);
+    const score = prefix + suffix - distance;
+    if (score > bestScore) {
+      best = [start, end];
+      bestScore = score;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,71 @@
+import {listen, Message, send, sendToTab} from './messages';
+import {fakeChrome} from './testing/fake-chrome';
+import {Command, EventNames} from './types';
+
+describe('messages', () => {
+  it('resolves with the response of the handler', async () => {
+    listen({
+      [EventNames.TAB_MATCHES_REQUEST]: request =>
+          ({term: 'foo', count: request.tabId}),
+    });
+
+    const response =
+        await send({eventName: EventNames.TAB_MATCHES_REQUEST, tabId: 3});
+    expect(response).toEqual({term: 'foo', count: 3});
+  });
+
+  it('waits for async handlers', async () => {
+    listen({
+      [EventNames.SYNC_SETTINGS_REQUEST]: async () => {
+        await new Promise(resolve => setTimeout(resolve, 10));
+        return {'Feature': {enabled: true}};
+      },
+    });
+
+    const settings = await send({eventName: EventNames.SYNC_SETTINGS_REQUEST});
+    expect(settings).toEqual({'Feature': {enabled: true}});
+  });
+
+  it('rejects with errors thrown by the handler', async () => {
+    listen({
+      [EventNames.DIAGNOSTICS_REQUEST]: () => {
+        throw new TypeError('broken');
+      },
+    });
+
+    const reply = send({eventName: EventNames.DIAGNOSTICS_REQUEST});
+    await expect(reply).rejects.toThrow('broken');
+    await reply.catch(e => expect(e.name).toBe('TypeError'));
+  });
+
+  it('rejects when no handler responds', async () => {
+    listen({[EventNames.DIAGNOSTICS_REQUEST]: () => ({})});
+
+    await expect(send({eventName: EventNames.SYNC_SETTINGS_REQUEST}))
+        .rejects.toThrow(/message port closed/);
+  });
+
+  it('stops handling messages once unsubscribed', async () => {
+    const stop = listen({[EventNames.DIAGNOSTICS_REQUEST]: () => ({})});
+    stop();
+
+    expect(fakeChrome().runtime.onMessage.listeners.length).toBe(0);
+    await expect(send({eventName: EventNames.DIAGNOSTICS_REQUEST}))
+        .rejects.toThrow();
+  });
+
+  it('sends to one frame of a tab', async () => {
+    const run = jest.fn();
+    listen({[EventNames.RUN_COMMAND_REQUEST]: run});
+    const message: Message = {
+      eventName: EventNames.RUN_COMMAND_REQUEST,
+      command: Command.PIN_TERM,
+      text: 'a',
+    };
+
+    await sendToTab(2, message, 5);
+    expect(fakeChrome().tabMessages).toEqual([{tabId: 2, frameId: 5, message}]);
+    expect(run).toHaveBeenCalledWith(
+        message, expect.objectContaining({frameId: 5}));
+  });
+});
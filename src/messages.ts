@@ -0,0 +1,126 @@
+import {Diagnostics, serializeError} from './diagnostics';
+import {MessageSender, platform} from './platform';
+import {Command, EventNames, FeatureState, ImportMode, MatchesSummary, SerializedError, Settings, StatsReport} from './types';
+
+/**
+ * Payload and response of every message, by event name.
+ *
+ * Add new messages here, `send` and `listen` are typed from it.
+ */
+interface MessageTypes {
+  [EventNames.SYNC_SETTINGS_REQUEST]: {payload: {}, response: Settings};
+  // settings changed, sent to every tab and the option page
+  [EventNames.SYNC_SETTINGS_RESPONSE]:
+      {payload: {settings: Settings}, response: void};
+  // requests changing settings respond with all settings as stored
+  [EventNames.UPDATE_SETTINGS_REQUEST]:
+      {payload: {settings: Settings}, response: Settings};
+  [EventNames.RESETE_SETTINGS_REQUEST]: {payload: {}, response: Settings};
+  [EventNames.IMPORT_SETTINGS_REQUEST]:
+      {payload: {settings: Settings, mode: ImportMode}, response: Settings};
+  // disable the highlighter on the host of the url, or enable it again
+  [EventNames.TOGGLE_SITE_REQUEST]:
+      {payload: {url: string}, response: Settings};
+  [EventNames.REPORT_STATS_REQUEST]:
+      {payload: {report: StatsReport}, response: void};
+  [EventNames.DIAGNOSTICS_REQUEST]: {payload: {}, response: Diagnostics};
+  [EventNames.CLEAR_DIAGNOSTICS_REQUEST]: {payload: {}, response: void};
+  // term highlighted in a frame, empty when cleared, `source` identifies the
+  // frame it came from
+  [EventNames.RELAY_TERM_REQUEST]:
+      {payload: {term: string, source: string}, response: void};
+  // sent to all frames of the tab a term was relayed from
+  [EventNames.HIGHLIGHT_TERM_REQUEST]:
+      {payload: {term: string, source: string}, response: void};
+  // matches in a frame changed
+  [EventNames.REPORT_MATCHES_REQUEST]:
+      {payload: MatchesSummary, response: void};
+  // matches of all frames of the tab
+  [EventNames.TAB_MATCHES_REQUEST]:
+      {payload: {tabId: number}, response: MatchesSummary};
+  [EventNames.TAB_FEATURES_REQUEST]: {payload: {}, response: FeatureState[]};
+  // enable or disable a feature in the tab only
+  [EventNames.TOGGLE_FEATURE_REQUEST]:
+      {payload: {name: string, enabled: boolean}, response: void};
+  // run by features in the tab, `text` is the selection the context menu was
+  // opened on
+  [EventNames.RUN_COMMAND_REQUEST]:
+      {payload: {command: Command, text?: string}, response: void};
+}
+
+/** A message, a union of all messages discriminated by `eventName`. */
+export type Message<E extends EventNames = EventNames> = E extends EventNames ?
+    {eventName: E}&MessageTypes[E]['payload'] :
+    never;
+
+/** Response to the message with given event name. */
+export type ResponseOf<E extends EventNames> = MessageTypes[E]['response'];
+
+/** Handles a message, returns the response or a promise of it. */
+export type Handler<E extends EventNames> =
+    (message: Message<E>, sender: MessageSender) =>
+        ResponseOf<E>|Promise<ResponseOf<E>>;
+
+/** Handlers by event name, messages without one are left to others. */
+export type Handlers = {
+  [E in EventNames]?: Handler<E>;
+};
+
+// what is actually sent back, so failures of handlers reach the sender
+interface Reply {
+  response?: unknown;
+  error?: SerializedError;
+}
+
+// response of the reply, or the failure of the handler
+function unwrap<R>(reply: unknown) {
+  const {response, error} = (reply || {}) as Reply;
+  if (error) {
+    const e = new Error(error.message);
+    e.name = error.name;
+    throw e;
+  }
+  return response as R;
+}
+
+/**
+ * Send a message to the extension, e.g: from content scripts to background,
+ * resolves with the response of its handler.
+ */
+export function send<E extends EventNames>(message: Message<E>) {
+  return platform().sendMessage(message).then(
+      reply => unwrap<ResponseOf<E>>(reply));
+}
+
+/**
+ * Send a message to a tab, or only to one frame of it.
+ */
+export function sendToTab<E extends EventNames>(
+    tabId: number, message: Message<E>, frameId?: number) {
+  return platform()
+      .sendToTab(tabId, message, frameId)
+      .then(reply => unwrap<ResponseOf<E>>(reply));
+}
+
+/**
+ * Handle messages, responses are sent back to the frame that sent them.
+ *
+ * Returns a function to stop listening.
+ */
+export function listen(handlers: Handlers) {
+  const listener =
+      (received: unknown, sender: MessageSender,
+       sendResponse: (reply: Reply) => void) => {
+        const message = received as Message;
+        const handler =
+            handlers[message.eventName] as Handler<EventNames>|undefined;
+        if (!handler) return false;
+        new Promise(resolve => resolve(handler(message, sender)))
+            .then(
+                response => sendResponse({response}),
+                error => sendResponse({error: serializeError(error)}));
+        // keep the channel open for async responses
+        return true;
+      };
+  return platform().addMessageListener(listener);
+}
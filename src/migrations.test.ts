@@ -0,0 +1,46 @@
+import {HIGHLIGHT_CONFIG_SCHEMA, HIGHLIGHTER_NAME} from './highlighter/config';
+import {featureVersion, migrateSettings} from './migrations';
+import {schemaDefaults} from './schema';
+
+// value of the highlighter after migrating it from the version
+function migrate(value: object, version?: number) {
+  const {settings} = migrateSettings({
+    [HIGHLIGHTER_NAME]: {enabled: true, value: JSON.stringify(value), version},
+  });
+  expect(settings[HIGHLIGHTER_NAME].version)
+      .toBe(featureVersion(HIGHLIGHTER_NAME));
+  return JSON.parse(settings[HIGHLIGHTER_NAME].value!);
+}
+
+describe('migrateSettings', () => {
+  it('adds defaults of all fields to unversioned values', () => {
+    expect(migrate({minCharSize: 5})).toEqual({
+      ...schemaDefaults(HIGHLIGHT_CONFIG_SCHEMA),
+      minCharSize: 5,
+    });
+  });
+
+  it('adds only the fields of the versions after the value', () => {
+    expect(migrate({minCharSize: 5}, 3)).toEqual({
+      minCharSize: 5,
+      smartSelection: false,
+      identifierMinCharSize: 1,
+    });
+  });
+
+  it('leaves current and invalid values as they are', () => {
+    const current = {
+      [HIGHLIGHTER_NAME]: {
+        enabled: true,
+        value: '{}',
+        version: featureVersion(HIGHLIGHTER_NAME),
+      },
+    };
+    expect(migrateSettings(current)).toEqual(
+        {settings: current, migrated: false});
+
+    const invalid = {[HIGHLIGHTER_NAME]: {enabled: true, value: '{'}};
+    expect(migrateSettings(invalid)).toEqual(
+        {settings: invalid, migrated: false});
+  });
+});
@@ -0,0 +1,94 @@
+import {ANNOTATIONS_CONFIG_SCHEMA, ANNOTATIONS_NAME} from './highlighter/annotations';
+import {HIGHLIGHT_CONFIG_SCHEMA, HIGHLIGHTER_NAME} from './highlighter/config';
+import {FeatureSchema} from './schema';
+import {Settings} from './types';
+
+/** Parsed value of a feature. */
+interface FeatureValue {
+  [field: string]: unknown;
+}
+
+/** Upgrade a feature value by one version. */
+export type Migration = (value: FeatureValue) => FeatureValue;
+
+// new fields get their defaults, unless set already
+function addDefaults(schema: FeatureSchema, fields: string[]): Migration {
+  return value => {
+    const defaults: FeatureValue = {};
+    fields.forEach(field => defaults[field] = schema[field].default);
+    return {...defaults, ...value};
+  };
+}
+
+/**
+ * Migrations of feature values by feature name.
+ *
+ * The migration at index i upgrades a value from version i to i + 1, so the
+ * current version of a feature is the number of its migrations. Values
+ * saved without a version are version 0.
+ */
+const MIGRATIONS: {[featureName: string]: Migration[]} = {
+  [HIGHLIGHTER_NAME]: [
+    // 0 -> 1: fields added since the first release get their defaults
+    addDefaults(HIGHLIGHT_CONFIG_SCHEMA, [
+      'excludeSelf', 'highlightStyle', 'activeHighlightStyle', 'renderer',
+      'excludeParents', 'noHighlightWithin', 'excludeUrlPatterns',
+      'minCharSize', 'caseSensitive', 'wholeWord', 'normalizeWhitespace',
+      'regex', 'nextMatchShortcut', 'previousMatchShortcut', 'showMinimap',
+      'pinShortcut', 'pinColors', 'maxMatches', 'siteProfiles'
+    ]),
+    // 1 -> 2: cross frame highlighting and clearing
+    addDefaults(HIGHLIGHT_CONFIG_SCHEMA, ['crossFrame', 'clearShortcut']),
+    // 2 -> 3: search box
+    addDefaults(
+        HIGHLIGHT_CONFIG_SCHEMA, ['searchShortcut', 'searchHistorySize']),
+    // 3 -> 4: identifier aware selection
+    addDefaults(
+        HIGHLIGHT_CONFIG_SCHEMA, ['smartSelection', 'identifierMinCharSize']),
+  ],
+  [ANNOTATIONS_NAME]: [
+    // 0 -> 1: editable fields keep the shortcut
+    addDefaults(ANNOTATIONS_CONFIG_SCHEMA, ['noHighlightWithin']),
+  ],
+};
+
+/** current version of the value of a feature */
+export function featureVersion(featureName: string) {
+  return (MIGRATIONS[featureName] || []).length;
+}
+
+/**
+ * Migrate values of all features to their current version.
+ *
+ * Returns the migrated settings and whether anything changed, values that
+ * are not valid JSON are left as is.
+ */
+export function migrateSettings(settings: Settings) {
+  const migratedSettings: Settings = {};
+  let migrated = false;
+  Object.keys(settings).forEach(featureName => {
+    const setting = settings[featureName];
+    const migrations = MIGRATIONS[featureName] || [];
+    const fromVersion = setting.version || 0;
+    migratedSettings[featureName] = setting;
+    if (setting.value === undefined || fromVersion >= migrations.length) {
+      return;
+    }
+
+    let value: FeatureValue;
+    try {
+      value = JSON.parse(setting.value);
+    } catch (e) {
+      return;
+    }
+    value = migrations.slice(fromVersion).reduce(
+        (migratedValue, migration) => migration(migratedValue), value);
+    migratedSettings[featureName] = {
+      ...setting,
+      value: JSON.stringify(value, null, 2),
+      version: migrations.length,
+    };
+    migrated = true;
+  });
+  return {settings: migratedSettings, migrated};
+}
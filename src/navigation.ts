@@ -0,0 +1,97 @@
+import {platform} from './platform';
+import {NavigationEvent, NavigationType} from './types';
+import {IntervalInstance, intervalManager} from './utils';
+
+// LINT.IfChange
+const NAVIGATION_EVENT = 'alfred-navigation';
+const BRIDGE_READY_EVENT = 'alfred-navigation-bridge-ready';
+// LINT.ThenChange(page-bridge.ts)
+
+// time for the bridge to start before falling back to polling
+const BRIDGE_TIMEOUT = 3000;
+const POLL_INTERVAL = 2000;
+
+/**
+ * Watches url changes without a page load.
+ *
+ * `popstate` and `hashchange` are seen from the content script, history api
+ * calls are made in the page world and reported by a bridge script injected
+ * into the page. When the bridge can not run, e.g: blocked by the page, the
+ * url is polled instead.
+ */
+export class NavigationWatcher {
+  private url = location.href;
+  private poller?: Required<IntervalInstance>;
+  private bridgeTimer?: number;
+
+  private onPopState = () => this.check('popstate');
+  private onHashChange = () => this.check('hashchange');
+  private onBridgeEvent = (e: Event) =>
+      this.check((e as CustomEvent<NavigationType>).detail);
+  private onBridgeReady = () => {
+    clearTimeout(this.bridgeTimer);
+    this.stopPolling();
+  };
+
+  constructor(private onNavigate: (event: NavigationEvent) => void) {}
+
+  start() {
+    window.addEventListener('popstate', this.onPopState);
+    window.addEventListener('hashchange', this.onHashChange);
+    window.addEventListener(NAVIGATION_EVENT, this.onBridgeEvent);
+    this.injectBridge();
+  }
+
+  stop() {
+    window.removeEventListener('popstate', this.onPopState);
+    window.removeEventListener('hashchange', this.onHashChange);
+    window.removeEventListener(NAVIGATION_EVENT, this.onBridgeEvent);
+    window.removeEventListener(BRIDGE_READY_EVENT, this.onBridgeReady);
+    clearTimeout(this.bridgeTimer);
+    this.stopPolling();
+  }
+
+  private check(type: NavigationType) {
+    if (location.href === this.url) return;
+    const previousUrl = this.url;
+    this.url = location.href;
+    this.onNavigate({type, url: this.url, previousUrl});
+  }
+
+  private injectBridge() {
+    const src = platform().getURL('page_bridge.js');
+    // not bundled, e.g: outside of the extension
+    if (!src) {
+      this.startPolling();
+      return;
+    }
+    window.addEventListener(
+        BRIDGE_READY_EVENT, this.onBridgeReady, {once: true});
+    const script = document.createElement('script');
+    script.src = src;
+    script.onload = () => script.remove();
+    script.onerror = () => {
+      script.remove();
+      this.startPolling();
+    };
+    (document.head || document.documentElement).appendChild(script);
+    // the script may load but be blocked from running
+    this.bridgeTimer =
+        window.setTimeout(() => this.startPolling(), BRIDGE_TIMEOUT);
+  }
+
+  private startPolling() {
+    if (this.poller) return;
+    this.poller = intervalManager.add({
+      name: 'location change listener',
+      interval: POLL_INTERVAL,
+      run: async () => this.check('poll'),
+    });
+  }
+
+  private stopPolling() {
+    if (!this.poller) return;
+    this.poller.stop();
+    this.poller = undefined;
+  }
+}
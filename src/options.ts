@@ -1,9 +1,21 @@
+import './diagnostics-panel';
 import './features';
+import './feature-form';
+import './settings-import';
+import './shortcuts-panel';
+import './site-profiles-editor';
 
 import {css, customElement, html, LitElement, property} from 'lit-element';
 
 import {alfred, Feature} from './api';
+import {FormValue} from './feature-form';
+import {HighlightConfig, SiteProfile} from './highlighter/config';
+import {listen, send} from './messages';
+import {featureVersion} from './migrations';
+import {ValidationError} from './schema';
+import {SettingsImport} from './settings-import';
 import {EventNames, Settings} from './types';
+import {debug} from './utils';
 
 /**
  * AlfredSettings component.
@@ -12,70 +24,134 @@ import {EventNames, Settings} from './types';
 export class AlfredSettings extends LitElement {
   @property({type: Boolean}) loading = true;
   @property({type: Boolean}) modified = false;
+  // invalid fields by feature name
+  @property({type: Object, attribute: false})
+  errors = new Map<string, ValidationError[]>();
+  // settings as saved, what imports are compared against
+  private savedSettings: Settings = {};
+  // errors of edits not in the feature value yet, by feature name
+  private editorErrors = new Map<string, ValidationError[]>();
 
   constructor() {
     super();
 
-    // listen on settings back when ready and changed
-    chrome.runtime.onMessage.addListener(request => {
-      if (request.eventName === EventNames.SYNC_SETTINGS_RESPONSE) {
-        alfred.setSettings(request.settings, /* noRun= */ true);
-        this.loading = false;
-        this.requestUpdate();
-      }
+    // listen on settings changed elsewhere
+    listen({
+      [EventNames.SYNC_SETTINGS_RESPONSE]: request =>
+          this.applySettings(request.settings),
     });
 
-    // ask to sync the settings
-    chrome.runtime.sendMessage({eventName: EventNames.SYNC_SETTINGS_REQUEST});
+    // ask for the settings
+    this.request(send({eventName: EventNames.SYNC_SETTINGS_REQUEST}));
+  }
+
+  private applySettings(settings: Settings) {
+    alfred.setSettings(settings, /* noRun= */ true);
+    this.savedSettings = settings;
+    this.loading = false;
+    this.requestUpdate();
+  }
+
+  // apply settings the background responds with
+  private request(response: Promise<Settings>) {
+    response.then(settings => this.applySettings(settings))
+        .catch(e => debug(e));
   }
 
   onChange() {
     this.modified = true;
+    this.validateAll();
+  }
+
+  async validateAll() {
+    const errors = new Map<string, ValidationError[]>();
+    for (const feature of alfred.features) {
+      const featureErrors = [
+        ...await feature.validateFields(feature.value),
+        ...this.editorErrors.get(feature.name) || [],
+      ];
+      if (featureErrors.length) errors.set(feature.name, featureErrors);
+    }
+    this.errors = errors;
+    return errors;
+  }
+
+  handleEditorErrors(feature: Feature, e: CustomEvent<ValidationError[]>) {
+    if (e.detail.length) {
+      this.editorErrors.set(feature.name, e.detail);
+    } else {
+      this.editorErrors.delete(feature.name);
+    }
+    this.validateAll();
   }
 
   async handleReset() {
     // send update to background process
-    chrome.runtime.sendMessage({
-      eventName: EventNames.RESETE_SETTINGS_REQUEST,
-    });
+    this.request(send({eventName: EventNames.RESETE_SETTINGS_REQUEST}));
   }
 
   async handleSave() {
     if (!this.modified) return;
 
-    // save only when all features are valid
-    const settingsToUpdate: Settings = {};
-    for (const feature of alfred.features) {
-      const isValid = await feature.validate(feature.value);
-      if (!isValid) {
-        alert('Invalid rule');
-        return;
-      }
+    // save only when all features are valid, errors show on each feature
+    const errors = await this.validateAll();
+    if (errors.size) return;
 
+    // send update to background process
+    this.request(send({
+      eventName: EventNames.UPDATE_SETTINGS_REQUEST,
+      settings: this.collectSettings()
+    }));
+
+    this.modified = false;
+  }
+
+  // settings of all features as shown on the page
+  private collectSettings() {
+    const settings: Settings = {};
+    for (const feature of alfred.features) {
       if (!feature.hasOwnProperty('value')) {
-        settingsToUpdate[feature.name] = {
+        settings[feature.name] = {
           enabled: feature.enabled,
         };
       } else {
-        settingsToUpdate[feature.name] = {
+        settings[feature.name] = {
           value: feature.format(feature.value),
           enabled: feature.enabled,
+          version: featureVersion(feature.name),
         };
       }
     }
+    return settings;
+  }
 
-    // send update to background process
-    chrome.runtime.sendMessage({
-      eventName: EventNames.UPDATE_SETTINGS_REQUEST,
-      settings: settingsToUpdate
-    });
+  handleExport() {
+    const blob = new Blob(
+        [JSON.stringify(this.collectSettings(), null, 2)],
+        {type: 'application/json'});
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = 'selection-highlighter-settings.json';
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }
 
+  handleImport(e: CustomEvent<SettingsImport>) {
+    // background migrates and stores them
+    this.request(send({
+      eventName: EventNames.IMPORT_SETTINGS_REQUEST,
+      settings: e.detail.settings,
+      mode: e.detail.mode,
+    }));
     this.modified = false;
   }
 
   private getFetureTemplate(feature: Feature) {
     return html`<alfred-setting-item @setting-changed=${
-        this.onChange} .feature=${feature}></alfred-setting-item>`;
+        this.onChange} @profiles-invalid=${
+        (e: CustomEvent<ValidationError[]>) =>
+            this.handleEditorErrors(feature, e)} .feature=${feature} .errors=${
+        this.errors.get(feature.name) || []}></alfred-setting-item>`;
   }
 
   render() {
@@ -83,16 +159,31 @@ export class AlfredSettings extends LitElement {
         <div class="actions">
           <button
             @click=${this.handleSave}
-            ?disabled=${!this.modified}>
+            ?disabled=${!this.modified || this.errors.size > 0}>
             Save
           </button>
           <button
             @click=${this.handleReset}>
             Reset
           </button>
+          <button
+            @click=${this.handleExport}
+            ?disabled=${this.modified}
+            title=${this.modified ? 'Save before exporting' : ''}>
+            Export
+          </button>
+          <span class="error" .hidden=${!this.errors.size}>
+            Fix invalid fields before saving.
+          </span>
         </div>
         <div class="feature-option-area">
+          <alfred-settings-import
+            .current=${this.savedSettings}
+            @import-settings=${this.handleImport}>
+          </alfred-settings-import>
+          <alfred-shortcuts></alfred-shortcuts>
           ${alfred.features.map(feature => this.getFetureTemplate(feature))}
+          <alfred-diagnostics></alfred-diagnostics>
         </div>
       `;
   }
@@ -131,6 +222,12 @@ export class AlfredSettings extends LitElement {
         .feature-option-area {
           margin-top: 60px;
         }
+        alfred-settings-import {
+          margin-bottom: 10px;
+        }
+        .error {
+          color: #d93025;
+        }
         `;
   }
 }
@@ -141,12 +238,95 @@ export class AlfredSettings extends LitElement {
 @customElement('alfred-setting-item')
 export class AlfredSettingItem extends LitElement {
   @property({type: Object, attribute: false}) feature!: Feature;
+  @property({type: Array, attribute: false}) errors: ValidationError[] = [];
+  // edit the value as raw JSON instead of the form
+  @property({type: Boolean}) rawMode = false;
 
   handleInputChange(e: Event) {
     this.feature.value = (e.target as HTMLInputElement).value;
     this.onChange();
   }
 
+  handleFormChange(e: CustomEvent<FormValue>) {
+    this.feature.value = JSON.stringify(e.detail, null, 2);
+    this.onChange();
+    this.requestUpdate();
+  }
+
+  toggleRawMode() {
+    this.rawMode = !this.rawMode;
+  }
+
+  handleProfilesChange(e: CustomEvent<SiteProfile[]>) {
+    const config = this.parsedValue;
+    if (!config) return;
+    config.siteProfiles = e.detail;
+    this.feature.value = JSON.stringify(config, null, 2);
+    this.onChange();
+    this.requestUpdate();
+  }
+
+  // value as an object, undefined if not valid JSON
+  get parsedValue(): HighlightConfig|undefined {
+    try {
+      return JSON.parse(this.feature.value as string);
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  private getSiteProfilesTemplate() {
+    // only for features supporting site profiles
+    const config = this.parsedValue;
+    if (!config || !Array.isArray(config.siteProfiles)) return '';
+    return html`<alfred-site-profiles
+        .config=${config}
+        @profiles-changed=${this.handleProfilesChange}>
+      </alfred-site-profiles>`;
+  }
+
+  private getValueTemplate() {
+    if (typeof this.feature.value !== 'string') return '';
+
+    // the form needs a schema and a value it can parse
+    const config = this.parsedValue;
+    const canUseForm = !!this.feature.schema && !!config;
+    if (!canUseForm || this.rawMode) {
+      return html`
+          ${canUseForm ? html`<button class="mode" @click=${
+          this.toggleRawMode}>form</button>` : ''}
+          <textarea
+            name="${this.feature.name}"
+            .value=${this.feature.value}
+            @input=${this.handleInputChange}>
+          </textarea>
+          ${this.getErrorsTemplate()}
+        `;
+    }
+    return html`
+        <button class="mode" @click=${this.toggleRawMode}>raw JSON</button>
+        <alfred-feature-form
+          .schema=${this.feature.schema}
+          .value=${config}
+          .errors=${this.errors}
+          .skipFields=${['siteProfiles']}
+          @value-changed=${this.handleFormChange}>
+        </alfred-feature-form>
+      `;
+  }
+
+  private getErrorsTemplate() {
+    if (!this.errors.length) return '';
+    return html`
+        <ul class="errors">
+          ${this.errors.map(error => html`<li>
+            ${error.field ? html`<code>${error.field}</code>: ` : ''}
+            ${error.message}
+          </li>`)}
+        </ul>
+      `;
+  }
+
   toggleDisable() {
     this.feature.enabled = !this.feature.enabled;
     this.onChange();
@@ -169,12 +349,8 @@ export class AlfredSettingItem extends LitElement {
           .checked=${this.feature.enabled}
           @click=${this.toggleDisable} />
         <label for="${this.feature.name}">${this.feature.description}</label>
-        <textarea
-          .hidden=${typeof this.feature.value !== 'string'}
-          name="${this.feature.name}"
-          .value=${this.feature.value as string}
-          @input=${this.handleInputChange}>
-        </textarea>
+        ${this.getValueTemplate()}
+        ${this.getSiteProfilesTemplate()}
        `;
   }
 
@@ -200,8 +376,13 @@ export class AlfredSettingItem extends LitElement {
           padding: 10px;
           box-sizing: border-box;
         }
-        textarea[hidden] {
-          display: none;
+        button.mode {
+          display: block;
+          margin-top: 10px;
+        }
+        .errors {
+          color: #d93025;
+          padding-left: 20px;
         }
         `;
   }
@@ -0,0 +1,29 @@
+/**
+ * Runs in the page world, where history api calls of the page can be seen,
+ * and tells the content script about them with events on window.
+ *
+ * Keep it free of imports, it is loaded into every page.
+ */
+
+// LINT.IfChange
+const NAVIGATION_EVENT = 'alfred-navigation';
+const BRIDGE_READY_EVENT = 'alfred-navigation-bridge-ready';
+// LINT.ThenChange(navigation.ts)
+
+const win = window as unknown as {alfredNavigationBridge?: boolean};
+
+// content scripts of each frame load it once, but may be reloaded
+if (!win.alfredNavigationBridge) {
+  win.alfredNavigationBridge = true;
+  (['pushState', 'replaceState'] as const).forEach(method => {
+    const original = history[method];
+    history[method] = function(this: History, ...args: unknown[]) {
+      const result =
+          original.apply(this, args as Parameters<History['pushState']>);
+      window.dispatchEvent(
+          new CustomEvent(NAVIGATION_EVENT, {detail: method}));
+      return result;
+    };
+  });
+}
+window.dispatchEvent(new CustomEvent(BRIDGE_READY_EVENT));
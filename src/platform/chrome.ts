@@ -0,0 +1,110 @@
+import {CommandShortcut, KeyValueStore, MessageListener, Platform, TabInfo} from './index';
+
+// rejects with the last error of chrome apis, if any
+function settle<T>(
+    resolve: (value: T) => void, reject: (error: Error) => void, value: T) {
+  const lastError = chrome.runtime.lastError;
+  if (lastError) {
+    reject(new Error(lastError.message));
+  } else {
+    resolve(value);
+  }
+}
+
+/** A `chrome.storage` area. */
+export class ChromeStore implements KeyValueStore {
+  constructor(private area: 'sync'|'local') {}
+
+  // looked up on use, chrome apis may be replaced, e.g: in tests
+  private get storage() {
+    return chrome.storage[this.area];
+  }
+
+  get<T>(key: string) {
+    return new Promise<T|undefined>((resolve, reject) => {
+      this.storage.get(
+          [key], result => settle(resolve, reject, result[key] as T));
+    });
+  }
+
+  set(key: string, value: unknown) {
+    return new Promise<void>((resolve, reject) => {
+      this.storage.set(
+          {[key]: value}, () => settle(resolve, reject, undefined));
+    });
+  }
+
+  remove(key: string) {
+    return new Promise<void>((resolve, reject) => {
+      this.storage.remove(key, () => settle(resolve, reject, undefined));
+    });
+  }
+
+  clear() {
+    return new Promise<void>((resolve, reject) => {
+      this.storage.clear(() => settle(resolve, reject, undefined));
+    });
+  }
+}
+
+/** Runs in the extension, on chrome apis. */
+export class ChromePlatform implements Platform {
+  readonly sync = new ChromeStore('sync');
+  readonly local = new ChromeStore('local');
+
+  sendMessage(message: unknown) {
+    return new Promise<unknown>((resolve, reject) => {
+      chrome.runtime.sendMessage(
+          message, reply => settle(resolve, reject, reply));
+    });
+  }
+
+  sendToTab(tabId: number, message: unknown, frameId?: number) {
+    return new Promise<unknown>((resolve, reject) => {
+      const callback = (reply: unknown) => settle(resolve, reject, reply);
+      if (frameId === undefined) {
+        chrome.tabs.sendMessage(tabId, message, callback);
+      } else {
+        chrome.tabs.sendMessage(tabId, message, {frameId}, callback);
+      }
+    });
+  }
+
+  addMessageListener(listener: MessageListener) {
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
+  }
+
+  queryTabs(activeOnly = false) {
+    const query = activeOnly ? {active: true, currentWindow: true} : {};
+    return new Promise<TabInfo[]>((resolve, reject) => {
+      chrome.tabs.query(query, tabs => settle(resolve, reject, tabs || []));
+    });
+  }
+
+  getURL(path: string) {
+    return chrome.runtime.getURL(path);
+  }
+
+  openOptionsPage() {
+    chrome.runtime.openOptionsPage();
+  }
+
+  getCommandShortcuts() {
+    return new Promise<CommandShortcut[]>((resolve, reject) => {
+      chrome.commands.getAll(commands => {
+        const shortcuts = (commands || []).map(command => ({
+          name: command.name || '',
+          description: command.description || '',
+          shortcut: command.shortcut || '',
+        }));
+        settle(resolve, reject, shortcuts);
+      });
+    });
+  }
+
+  // pages of the browser can only be opened from extension apis
+  openShortcutSettings() {
+    chrome.tabs.create({url: 'chrome://extensions/shortcuts'});
+  }
+}
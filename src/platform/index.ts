@@ -0,0 +1,78 @@
+import {ChromePlatform} from './chrome';
+
+/** A tab, as much as the platform knows about it. */
+export interface TabInfo {
+  id?: number;
+  url?: string;
+}
+
+/** Where a message came from. */
+export interface MessageSender {
+  tab?: TabInfo;
+  frameId?: number;
+}
+
+/** A keyboard command and the shortcut bound to it, empty if none. */
+export interface CommandShortcut {
+  name: string;
+  description: string;
+  shortcut: string;
+}
+
+/**
+ * Receives every message, returns true to respond asynchronously with
+ * `sendResponse`.
+ */
+export type MessageListener =
+    (message: unknown, sender: MessageSender,
+     sendResponse: (reply: unknown) => void) => boolean;
+
+/** Asynchronous key value storage, values are JSON serializable. */
+export interface KeyValueStore {
+  get<T>(key: string): Promise<T|undefined>;
+  set(key: string, value: unknown): Promise<void>;
+  remove(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Everything alfred needs from where it runs, so features work outside of
+ * the extension too, e.g: embedded in a page.
+ */
+export interface Platform {
+  // settings, synced across devices where supported
+  readonly sync: KeyValueStore;
+  // data kept on this device, e.g: diagnostics and annotations
+  readonly local: KeyValueStore;
+
+  // resolves with the reply of the first listener responding, rejects when
+  // none does
+  sendMessage(message: unknown): Promise<unknown>;
+  sendToTab(tabId: number, message: unknown, frameId?: number):
+      Promise<unknown>;
+  // returns a function to remove the listener
+  addMessageListener(listener: MessageListener): () => void;
+
+  // all tabs, or only the one the user is looking at
+  queryTabs(activeOnly?: boolean): Promise<TabInfo[]>;
+  // url of a file bundled with alfred, undefined if there is none
+  getURL(path: string): string|undefined;
+  openOptionsPage(): void;
+
+  // shortcuts are set by the user in the browser, empty if not supported
+  getCommandShortcuts(): Promise<CommandShortcut[]>;
+  openShortcutSettings(): void;
+}
+
+let PLATFORM: Platform|undefined;
+
+/** The platform alfred runs on, chrome unless set otherwise. */
+export function platform() {
+  if (!PLATFORM) PLATFORM = new ChromePlatform();
+  return PLATFORM;
+}
+
+/** Run on given platform, call before anything uses it. */
+export function setPlatform(value: Platform) {
+  PLATFORM = value;
+}
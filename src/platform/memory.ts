@@ -0,0 +1,130 @@
+import {KeyValueStore, MessageListener, MessageSender, Platform, TabInfo} from './index';
+
+// stored values are copies, like they are in chrome storage
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/** Values kept in memory, lost when the page unloads. */
+export class MemoryStore implements KeyValueStore {
+  private items = new Map<string, unknown>();
+
+  async get<T>(key: string) {
+    return clone(this.items.get(key)) as T | undefined;
+  }
+
+  async set(key: string, value: unknown) {
+    this.items.set(key, clone(value));
+  }
+
+  async remove(key: string) {
+    this.items.delete(key);
+  }
+
+  async clear() {
+    this.items.clear();
+  }
+}
+
+/** Values kept in `localStorage` as JSON, under keys starting with prefix. */
+export class LocalStorageStore implements KeyValueStore {
+  constructor(private prefix = 'alfred:') {}
+
+  async get<T>(key: string) {
+    const item = localStorage.getItem(this.prefix + key);
+    return item === null ? undefined : JSON.parse(item) as T;
+  }
+
+  async set(key: string, value: unknown) {
+    localStorage.setItem(this.prefix + key, JSON.stringify(value));
+  }
+
+  async remove(key: string) {
+    localStorage.removeItem(this.prefix + key);
+  }
+
+  // only removes our own keys, the page may use localStorage too
+  async clear() {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.startsWith(this.prefix)) keys.push(key);
+    }
+    keys.forEach(key => localStorage.removeItem(key));
+  }
+}
+
+/**
+ * Runs in a plain page, everything lives in the page itself.
+ *
+ * There is a single tab with a single frame, messages are delivered to
+ * every listener in the page, the sender included.
+ */
+export class MemoryPlatform implements Platform {
+  private listeners: MessageListener[] = [];
+
+  constructor(
+      readonly sync: KeyValueStore = new MemoryStore(),
+      readonly local: KeyValueStore = new MemoryStore()) {}
+
+  private get tab(): TabInfo {
+    return {id: 0, url: location.href};
+  }
+
+  sendMessage(message: unknown) {
+    return this.dispatch(message, {tab: this.tab, frameId: 0});
+  }
+
+  sendToTab(tabId: number, message: unknown, frameId?: number) {
+    if (tabId !== 0 || (frameId !== undefined && frameId !== 0)) {
+      return Promise.reject(new Error(`No tab with id: ${tabId}`));
+    }
+    return this.dispatch(message, {frameId: 0});
+  }
+
+  addMessageListener(listener: MessageListener) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  async queryTabs() {
+    return [this.tab];
+  }
+
+  // nothing is bundled, e.g: navigation falls back to polling
+  getURL() {
+    return undefined;
+  }
+
+  openOptionsPage() {}
+
+  // commands run on their default shortcuts, they can not be changed
+  async getCommandShortcuts() {
+    return [];
+  }
+
+  openShortcutSettings() {}
+
+  // resolves with the first reply, like chrome, asynchronously
+  private dispatch(message: unknown, sender: MessageSender) {
+    return new Promise<unknown>((resolve, reject) => {
+      setTimeout(() => {
+        let responded = false;
+        let pending = false;
+        const sendResponse = (reply: unknown) => {
+          if (responded) return;
+          responded = true;
+          resolve(reply);
+        };
+        [...this.listeners].forEach(listener => {
+          if (listener(clone(message), sender, sendResponse)) pending = true;
+        });
+        if (!responded && !pending) {
+          reject(new Error('No listener handled the message.'));
+        }
+      });
+    });
+  }
+}
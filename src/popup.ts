@@ -0,0 +1,170 @@
+import './features';
+
+import {css, customElement, html, LitElement, property} from 'lit-element';
+
+import {alfred} from './api';
+import {HighlightConfig, HIGHLIGHTER_NAME, hostExcludePattern} from './highlighter/config';
+import {send, sendToTab} from './messages';
+import {platform} from './platform';
+import {EventNames, FeatureState, MatchesSummary, Settings} from './types';
+import {debug} from './utils';
+
+/**
+ * AlfredPopup component, shows matches in the current tab and quick toggles.
+ */
+@customElement('alfred-popup')
+export class AlfredPopup extends LitElement {
+  @property({type: Object, attribute: false}) tabMatches?: MatchesSummary;
+  // undefined when the content script is not running in the tab
+  @property({type: Array, attribute: false}) features?: FeatureState[];
+  @property({type: Boolean}) loading = true;
+  @property({type: Boolean}) hostExcluded = false;
+
+  private tabId?: number;
+  private url = '';
+  private host = '';
+
+  constructor() {
+    super();
+    platform()
+        .queryTabs(true)
+        .then(([tab]) => {
+          if (!tab || tab.id === undefined || !tab.url) return;
+          this.tabId = tab.id;
+          this.url = tab.url;
+          this.host = new URL(tab.url).host;
+          return this.load();
+        })
+        .catch(e => debug(e))
+        .finally(() => this.loading = false);
+  }
+
+  private get excludePattern() {
+    return hostExcludePattern(this.host);
+  }
+
+  private get highlighter() {
+    return alfred.features.find(feature => feature.name === HIGHLIGHTER_NAME);
+  }
+
+  private async load() {
+    const tabId = this.tabId!;
+    this.tabMatches =
+        await send({eventName: EventNames.TAB_MATCHES_REQUEST, tabId});
+    this.applySettings(
+        await send({eventName: EventNames.SYNC_SETTINGS_REQUEST}));
+    // only the top frame answers
+    this.features = await sendToTab(
+        tabId, {eventName: EventNames.TAB_FEATURES_REQUEST}, 0);
+  }
+
+  private applySettings(settings: Settings) {
+    alfred.setSettings(settings, /* noRun= */ true);
+    const config = this.highlighterConfig;
+    this.hostExcluded = !!config &&
+        (config.excludeUrlPatterns || []).includes(this.excludePattern);
+  }
+
+  private get highlighterConfig(): HighlightConfig|undefined {
+    const highlighter = this.highlighter;
+    try {
+      return highlighter && JSON.parse(highlighter.value!);
+    } catch (e) {
+      return undefined;
+    }
+  }
+
+  private toggleFeature(feature: FeatureState) {
+    const enabled = !feature.enabled;
+    this.features = this.features!.map(
+        f => f.name === feature.name ? {...f, enabled} : f);
+    sendToTab(this.tabId!, {
+      eventName: EventNames.TOGGLE_FEATURE_REQUEST,
+      name: feature.name,
+      enabled,
+    }).catch(e => debug(e));
+  }
+
+  // same as the toggle site command, the background updates the settings
+  private toggleHost() {
+    send({eventName: EventNames.TOGGLE_SITE_REQUEST, url: this.url})
+        .then(settings => this.applySettings(settings))
+        .catch(e => debug(e));
+  }
+
+  private openOptions() {
+    platform().openOptionsPage();
+  }
+
+  private getMatchesTemplate() {
+    const matches = this.tabMatches;
+    if (!matches || !matches.term) return html`<p>Nothing highlighted.</p>`;
+    return html`<p>
+        <code>${matches.term}</code>: ${matches.count}
+        ${matches.count === 1 ? 'match' : 'matches'}
+      </p>`;
+  }
+
+  private getFeaturesTemplate() {
+    if (!this.features) {
+      return html`<p class="hint">Not available on this page.</p>`;
+    }
+    return html`
+        <h5>In this tab</h5>
+        <ul>
+          ${this.features.map(feature => html`<li>
+            <label title=${feature.description}>
+              <input
+                type="checkbox"
+                .checked=${feature.enabled}
+                @change=${() => this.toggleFeature(feature)} />
+              ${feature.name}
+            </label>
+          </li>`)}
+        </ul>
+        <p class="hint">Until the tab reloads, settings are not changed.</p>
+      `;
+  }
+
+  render() {
+    if (this.loading) return html`loading...`;
+    return html`
+        ${this.getMatchesTemplate()}
+        ${this.getFeaturesTemplate()}
+        ${this.host ? html`<button @click=${this.toggleHost}>
+            ${this.hostExcluded ? `Enable on ${this.host}` :
+                                  `Disable on ${this.host}`}
+          </button>` : ''}
+        <button @click=${this.openOptions}>Options</button>
+      `;
+  }
+
+  static get styles() {
+    return css`
+        :host {
+          display: block;
+          width: 280px;
+          padding: 10px;
+          font: 13px Roboto, sans-serif;
+        }
+        ul {
+          margin: 0;
+          padding: 0;
+        }
+        li {
+          list-style: none;
+          padding: 2px 0;
+        }
+        .hint {
+          color: #666;
+        }
+        button {
+          display: block;
+          width: 100%;
+          margin-top: 5px;
+          padding: 5px;
+          cursor: pointer;
+        }
+        `;
+  }
+}
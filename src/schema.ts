@@ -0,0 +1,193 @@
+/** Supported types of fields in a feature value. */
+export type FieldType =
+    'string'|'number'|'boolean'|'string[]'|'object'|'object[]';
+
+/**
+ * Extra validation for strings, or each string of a string list, `style`
+ * is not validated but edited with a style control in the options page.
+ */
+export type FieldFormat = 'selector'|'regex'|'color'|'shortcut'|'style';
+
+/**
+ * Schema of a single field.
+ */
+export interface FieldSchema {
+  type: FieldType;
+  description?: string;
+  default?: unknown;
+  // allowed values
+  enum?: Array<string|number>;
+  format?: FieldFormat;
+  // bounds for numbers
+  min?: number;
+  max?: number;
+  required?: boolean;
+  // schema of the object, or of each object in the list
+  fields?: FeatureSchema;
+}
+
+/**
+ * Schema of a feature value, by field name.
+ */
+export interface FeatureSchema {
+  [field: string]: FieldSchema;
+}
+
+/**
+ * A field that failed validation, `field` is the path to it, e.g:
+ * `excludeParents[1]`, empty when the whole value is invalid.
+ */
+export interface ValidationError {
+  field: string;
+  message: string;
+}
+
+const SHORTCUT_MODIFIERS = ['alt', 'ctrl', 'meta', 'shift'];
+
+// returns an error message if the string is not in given format
+function checkFormat(value: string, format: FieldFormat): string|undefined {
+  switch (format) {
+    case 'selector':
+      try {
+        document.createDocumentFragment().querySelector(value);
+      } catch (e) {
+        return `"${value}" is not a valid CSS selector`;
+      }
+      break;
+    case 'regex':
+      try {
+        new RegExp(value);
+      } catch (e) {
+        return `"${value}" is not a valid regular expression`;
+      }
+      break;
+    case 'color':
+      if (typeof CSS !== 'undefined' && !CSS.supports('color', value)) {
+        return `"${value}" is not a valid color`;
+      }
+      break;
+    case 'shortcut': {
+      const keys = value.split('+').map(key => key.trim());
+      const code = keys.pop();
+      const isModifier = (key: string) =>
+          SHORTCUT_MODIFIERS.includes(key.toLowerCase());
+      if (!code || !keys.every(isModifier)) {
+        return `"${value}" is not a valid shortcut, e.g: Alt+Shift+KeyN`;
+      }
+      break;
+    }
+    default:
+      break;
+  }
+  return undefined;
+}
+
+function typeOf(value: unknown) {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  return typeof value;
+}
+
+function validateField(
+    schema: FieldSchema, value: unknown, path: string): ValidationError[] {
+  const error = (message: string) => [{field: path, message}];
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        return error(`expected a string, got ${typeOf(value)}`);
+      }
+      if (schema.format) {
+        const message = checkFormat(value, schema.format);
+        if (message) return error(message);
+      }
+      break;
+    case 'number':
+      if (typeof value !== 'number' || isNaN(value)) {
+        return error(`expected a number, got ${typeOf(value)}`);
+      }
+      if (schema.min !== undefined && value < schema.min) {
+        return error(`should be at least ${schema.min}`);
+      }
+      if (schema.max !== undefined && value > schema.max) {
+        return error(`should be at most ${schema.max}`);
+      }
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        return error(`expected true or false, got ${typeOf(value)}`);
+      }
+      break;
+    case 'string[]':
+      if (!Array.isArray(value)) {
+        return error(`expected a list of strings, got ${typeOf(value)}`);
+      }
+      return ([] as ValidationError[])
+          .concat(...value.map(
+              (item, i) => validateField(
+                  {type: 'string', format: schema.format}, item,
+                  `${path}[${i}]`)));
+    case 'object':
+      if (typeOf(value) !== 'object') {
+        return error(`expected an object, got ${typeOf(value)}`);
+      }
+      return schema.fields ?
+          validateValue(schema.fields, value, `${path}.`) :
+          [];
+    case 'object[]':
+      if (!Array.isArray(value)) {
+        return error(`expected a list of objects, got ${typeOf(value)}`);
+      }
+      return ([] as ValidationError[])
+          .concat(...value.map(
+              (item, i) => validateField(
+                  {type: 'object', fields: schema.fields}, item,
+                  `${path}[${i}]`)));
+    default:
+      break;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    return error(`should be one of ${schema.enum.join(', ')}`);
+  }
+  return [];
+}
+
+/**
+ * Validate a parsed value against the schema, returns all invalid fields.
+ *
+ * Unknown fields are reported too, they are most likely typos.
+ */
+export function validateValue(
+    schema: FeatureSchema, value: unknown, prefix = ''): ValidationError[] {
+  if (typeOf(value) !== 'object') {
+    const message = `expected an object, got ${typeOf(value)}`;
+    return [{field: prefix, message}];
+  }
+  const obj = value as {[key: string]: unknown};
+  const errors: ValidationError[] = [];
+  Object.keys(obj).forEach(field => {
+    if (!schema[field]) {
+      errors.push({field: `${prefix}${field}`, message: 'unknown field'});
+    } else if (obj[field] !== undefined) {
+      errors.push(
+          ...validateField(schema[field], obj[field], `${prefix}${field}`));
+    }
+  });
+  Object.keys(schema).forEach(field => {
+    if (schema[field].required && obj[field] === undefined) {
+      errors.push({field: `${prefix}${field}`, message: 'is required'});
+    }
+  });
+  return errors;
+}
+
+/** default value of every field that has one */
+export function schemaDefaults(schema: FeatureSchema) {
+  const defaults: {[field: string]: unknown} = {};
+  Object.keys(schema).forEach(field => {
+    if (schema[field].default !== undefined) {
+      defaults[field] = schema[field].default;
+    }
+  });
+  return defaults;
+}
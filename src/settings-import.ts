@@ -0,0 +1,250 @@
+import {css, customElement, html, LitElement, property} from 'lit-element';
+
+import {Alfred} from './api';
+import {migrateSettings} from './migrations';
+import {ImportMode, Settings} from './types';
+
+/** Settings picked to import and how to apply them. */
+export interface SettingsImport {
+  settings: Settings;
+  mode: ImportMode;
+}
+
+/** A changed field of a feature, undefined when it is not set. */
+interface SettingsChange {
+  feature: string;
+  field: string;
+  current?: string;
+  imported?: string;
+}
+
+// fields of a value by name, the whole value when it is not a JSON object
+function valueFields(value?: string): {[field: string]: string} {
+  if (value === undefined) return {};
+  try {
+    const parsed = JSON.parse(value);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      const fields: {[field: string]: string} = {};
+      Object.keys(parsed).forEach(
+          field => fields[field] = JSON.stringify(parsed[field]));
+      return fields;
+    }
+  } catch (e) {
+    // compared as a whole below
+  }
+  return {value};
+}
+
+// returns every field that differs between current and imported settings
+function diffSettings(current: Settings, imported: Settings, mode: ImportMode) {
+  const changes: SettingsChange[] = [];
+  // with merge, features not in the file are kept as is
+  const features = mode === 'merge' ?
+      Object.keys(imported) :
+      Array.from(new Set([...Object.keys(current), ...Object.keys(imported)]));
+  features.forEach(feature => {
+    const currentSetting = current[feature];
+    const importedSetting = imported[feature];
+    const currentEnabled = currentSetting && String(currentSetting.enabled);
+    const importedEnabled = importedSetting && String(importedSetting.enabled);
+    if (currentEnabled !== importedEnabled) {
+      changes.push({
+        feature,
+        field: 'enabled',
+        current: currentEnabled,
+        imported: importedEnabled,
+      });
+    }
+
+    const currentFields = valueFields(currentSetting && currentSetting.value);
+    const importedFields =
+        valueFields(importedSetting && importedSetting.value);
+    new Set([...Object.keys(currentFields), ...Object.keys(importedFields)])
+        .forEach(field => {
+          if (currentFields[field] === importedFields[field]) return;
+          changes.push({
+            feature,
+            field,
+            current: currentFields[field],
+            imported: importedFields[field],
+          });
+        });
+  });
+  return changes;
+}
+
+// returns an error message if the parsed file is not settings
+function checkSettings(settings: unknown): string|undefined {
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    return 'expected an object of settings by feature name';
+  }
+  for (const [feature, setting] of Object.entries(settings as {})) {
+    const {enabled, value, version} = (setting || {}) as {[key: string]: {}};
+    if (typeof enabled !== 'boolean') {
+      return `"${feature}" should have enabled set to true or false`;
+    }
+    if (value !== undefined && typeof value !== 'string') {
+      return `"${feature}" should have its value as a JSON string`;
+    }
+    if (version !== undefined && typeof version !== 'number') {
+      return `"${feature}" should have a numeric version`;
+    }
+  }
+  return undefined;
+}
+
+// returns every invalid field of the values of known features
+async function validateSettings(settings: Settings) {
+  const errors: string[] = [];
+  for (const [name, setting] of Object.entries(settings)) {
+    const feature = Alfred.features.get(name);
+    if (!feature) continue;
+    const featureErrors = await feature.validateFields(setting.value);
+    featureErrors.forEach(({field, message}) => {
+      errors.push(`"${name}" ${field ? `${field} ` : ''}${message}`);
+    });
+  }
+  return errors;
+}
+
+/**
+ * AlfredSettingsImport component, reads settings from a JSON file and
+ * previews what changes before they are imported.
+ */
+@customElement('alfred-settings-import')
+export class AlfredSettingsImport extends LitElement {
+  // settings currently saved, to diff against
+  @property({type: Object, attribute: false}) current: Settings = {};
+  @property({type: String}) mode: ImportMode = 'merge';
+  @property({type: Object, attribute: false}) imported?: Settings;
+  @property({type: String}) error = '';
+  // invalid values in the file, nothing is imported then
+  @property({type: Array, attribute: false}) invalidFields: string[] = [];
+
+  private async handleFileChange(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const file = input.files && input.files[0];
+    // allow picking the same file again
+    input.value = '';
+    if (!file) return;
+
+    this.imported = undefined;
+    this.invalidFields = [];
+    try {
+      const settings = JSON.parse(await file.text());
+      this.error = checkSettings(settings) || '';
+      if (this.error) return;
+      // files exported by older versions are previewed as they will be saved,
+      // and checked against the schemas of their features once migrated
+      const imported = migrateSettings(settings).settings;
+      this.invalidFields = await validateSettings(imported);
+      if (this.invalidFields.length) {
+        this.error = 'Nothing to import, the file has invalid values:';
+      } else {
+        this.imported = imported;
+      }
+    } catch (err) {
+      this.error = `Invalid JSON: ${err.message}`;
+    }
+  }
+
+  private handleModeChange(e: Event) {
+    this.mode = (e.target as HTMLSelectElement).value as ImportMode;
+  }
+
+  private apply() {
+    if (!this.imported) return;
+    this.dispatchEvent(new CustomEvent<SettingsImport>('import-settings', {
+      detail: {settings: this.imported, mode: this.mode},
+      bubbles: true,
+      composed: true,
+    }));
+    this.imported = undefined;
+  }
+
+  private cancel() {
+    this.imported = undefined;
+  }
+
+  private getPreviewTemplate() {
+    if (!this.imported) return '';
+    const changes = diffSettings(this.current, this.imported, this.mode);
+    const show = (value?: string) => value === undefined ?
+        html`<em>not set</em>` :
+        html`<code>${value}</code>`;
+    return html`
+        <div class="preview">
+          <select @change=${this.handleModeChange}>
+            <option value="merge" ?selected=${this.mode === 'merge'}>
+              merge: only replace features in the file
+            </option>
+            <option value="replace" ?selected=${this.mode === 'replace'}>
+              replace: features not in the file go back to defaults
+            </option>
+          </select>
+          ${changes.length ? html`
+            <table>
+              <tr>
+                <th>feature</th>
+                <th>field</th>
+                <th>current</th>
+                <th>imported</th>
+              </tr>
+              ${changes.map(change => html`<tr>
+                <td>${change.feature}</td>
+                <td><code>${change.field}</code></td>
+                <td>${show(change.current)}</td>
+                <td>${show(change.imported)}</td>
+              </tr>`)}
+            </table>` : html`<p>Nothing changes.</p>`}
+          <button @click=${this.apply}>import</button>
+          <button @click=${this.cancel}>cancel</button>
+        </div>
+      `;
+  }
+
+  render() {
+    return html`
+        <label>
+          Import from file
+          <input
+            type="file"
+            accept="application/json,.json"
+            @change=${this.handleFileChange} />
+        </label>
+        ${this.error ? html`<p class="error">${this.error}</p>` : ''}
+        ${this.invalidFields.length ? html`<ul class="error">
+          ${this.invalidFields.map(field => html`<li>${field}</li>`)}
+        </ul>` : ''}
+        ${this.getPreviewTemplate()}
+      `;
+  }
+
+  static get styles() {
+    return css`
+        :host {
+          display: block;
+        }
+        .preview {
+          margin-top: 10px;
+        }
+        table {
+          margin: 10px 0;
+          border-collapse: collapse;
+        }
+        th, td {
+          padding: 3px 8px;
+          border: 1px solid #ddd;
+          text-align: left;
+          vertical-align: top;
+        }
+        code {
+          white-space: pre-wrap;
+          word-break: break-all;
+        }
+        .error {
+          color: #d93025;
+        }
+        `;
+  }
+}
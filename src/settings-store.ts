@@ -0,0 +1,66 @@
+import {Handlers} from './messages';
+import {migrateSettings} from './migrations';
+import {platform} from './platform';
+import {EventNames, ImportMode, Settings} from './types';
+
+// merge settings of each feature into the stored ones
+function mergeSettings(settings: Settings, update: Settings) {
+  Object.keys(update).forEach(featureName => {
+    settings[featureName] =
+        Object.assign({}, settings[featureName], update[featureName]);
+  });
+  return settings;
+}
+
+/**
+ * Reads and changes the stored settings, `onChange` is called with all
+ * settings whenever they change.
+ */
+export class SettingsStore {
+  constructor(private onChange: (settings: Settings) => void) {}
+
+  // values saved by older versions are migrated and stored back
+  async get() {
+    const stored = await platform().sync.get<Settings>('settings');
+    const {settings, migrated} = migrateSettings(stored || {});
+    if (migrated) await platform().sync.set('settings', settings);
+    return settings;
+  }
+
+  // merge settings of each feature, responds with all of them
+  async update(update: Settings) {
+    return this.save(mergeSettings(await this.get(), update));
+  }
+
+  // settings from a file, possibly exported by an older version
+  async import(settings: Settings, mode: ImportMode) {
+    const imported = migrateSettings(settings).settings;
+    return this.save(
+        mode === 'replace' ? imported :
+                             mergeSettings(await this.get(), imported));
+  }
+
+  async reset() {
+    await platform().sync.clear();
+    this.onChange({});
+    return {};
+  }
+
+  /** Handlers of requests reading and changing settings. */
+  handlers(): Handlers {
+    return {
+      [EventNames.SYNC_SETTINGS_REQUEST]: () => this.get(),
+      [EventNames.UPDATE_SETTINGS_REQUEST]: request =>
+          this.update(request.settings),
+      [EventNames.IMPORT_SETTINGS_REQUEST]: request =>
+          this.import(request.settings, request.mode),
+      [EventNames.RESETE_SETTINGS_REQUEST]: () => this.reset(),
+    };
+  }
+
+  private async save(settings: Settings) {
+    await platform().sync.set('settings', settings);
+    this.onChange(settings);
+    return settings;
+  }
+}
@@ -0,0 +1,90 @@
+import {css, customElement, html, LitElement, property} from 'lit-element';
+
+import {COMMANDS} from './commands';
+import {CommandShortcut, platform} from './platform';
+import {debug} from './utils';
+
+/**
+ * AlfredShortcuts component, shows keyboard shortcuts bound to commands,
+ * they are changed in the browser.
+ */
+@customElement('alfred-shortcuts')
+export class AlfredShortcuts extends LitElement {
+  @property({type: Array, attribute: false}) shortcuts?: CommandShortcut[];
+
+  // shortcuts may have changed while the browser settings were open
+  private onFocus = () => this.refresh();
+
+  connectedCallback() {
+    super.connectedCallback();
+    window.addEventListener('focus', this.onFocus);
+    this.refresh();
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    window.removeEventListener('focus', this.onFocus);
+  }
+
+  refresh() {
+    platform()
+        .getCommandShortcuts()
+        .then(shortcuts => this.shortcuts = shortcuts)
+        .catch(e => debug(e));
+  }
+
+  private changeShortcuts() {
+    platform().openShortcutSettings();
+  }
+
+  private getShortcutTemplate(name: string) {
+    const command = (this.shortcuts || []).find(c => c.name === name);
+    if (!command || !command.shortcut) {
+      return html`<span class="unset">not set</span>`;
+    }
+    return html`<kbd>${command.shortcut}</kbd>`;
+  }
+
+  render() {
+    return html`
+        <h4>Keyboard shortcuts</h4>
+        <table>
+          ${COMMANDS.map(info => html`<tr>
+            <td>${info.description}</td>
+            <td>${this.shortcuts ? this.getShortcutTemplate(info.command) :
+                                   'loading...'}</td>
+            <td>${info.menuTitle ? 'also in the context menu' : ''}</td>
+          </tr>`)}
+        </table>
+        <button @click=${this.changeShortcuts}>change shortcuts</button>
+      `;
+  }
+
+  static get styles() {
+    return css`
+        :host {
+          display: block;
+          border-radius: 4px;
+          box-shadow: 0 2px 1px -1px rgba(0, 0, 0, 0.2),0 1px 1px 0 rgba(0, 0, 0, 0.14),0 1px 3px 0 rgba(0,0,0,.12);
+          box-sizing: border-box;
+          width: 100%;
+          padding: 15px;
+          margin-bottom: 10px;
+        }
+        table {
+          margin: 5px 0;
+          border-collapse: collapse;
+        }
+        td {
+          padding: 3px 8px;
+          border: 1px solid #ddd;
+        }
+        kbd {
+          font-family: monospace;
+        }
+        .unset {
+          color: #666;
+        }
+        `;
+  }
+}
@@ -0,0 +1,202 @@
+import {css, customElement, html, LitElement, property} from 'lit-element';
+
+import {HighlightConfig, resolveConfig, SiteProfile} from './highlighter/config';
+import {ValidationError} from './schema';
+
+/**
+ * AlfredSiteProfiles component, edits `siteProfiles` of the highlighter
+ * config and previews which profiles apply to a given url.
+ */
+@customElement('alfred-site-profiles')
+export class AlfredSiteProfiles extends LitElement {
+  @property({type: Object, attribute: false}) config!: HighlightConfig;
+  @property({type: String}) previewUrl = '';
+
+  // overrides that are not valid JSON yet, by profile index
+  private invalidOverrides = new Map<number, string>();
+
+  get profiles() {
+    return this.config.siteProfiles || [];
+  }
+
+  private updateProfiles(profiles: SiteProfile[]) {
+    this.dispatchEvent(new CustomEvent<SiteProfile[]>('profiles-changed', {
+      detail: profiles,
+      bubbles: true,
+      composed: true,
+    }));
+  }
+
+  // overrides that can't be saved, blocks saving like invalid fields do
+  private reportInvalidOverrides() {
+    const errors = Array.from(this.invalidOverrides.keys(), index => ({
+      field: `siteProfiles[${index}].overrides`,
+      message: 'Invalid JSON',
+    }));
+    this.dispatchEvent(
+        new CustomEvent<ValidationError[]>('profiles-invalid', {
+          detail: errors,
+          bubbles: true,
+          composed: true,
+        }));
+  }
+
+  private updateProfile(index: number, update: Partial<SiteProfile>) {
+    this.updateProfiles(this.profiles.map(
+        (profile, i) => i === index ? {...profile, ...update} : profile));
+  }
+
+  private handleFieldChange(
+      index: number, field: 'name'|'urlPattern', e: Event) {
+    this.updateProfile(index, {[field]: (e.target as HTMLInputElement).value});
+  }
+
+  private handlePreviewUrlChange(e: Event) {
+    this.previewUrl = (e.target as HTMLInputElement).value;
+  }
+
+  private handleOverridesChange(index: number, e: Event) {
+    const value = (e.target as HTMLTextAreaElement).value;
+    try {
+      const overrides = JSON.parse(value);
+      this.invalidOverrides.delete(index);
+      this.reportInvalidOverrides();
+      this.updateProfile(index, {overrides});
+    } catch (err) {
+      this.invalidOverrides.set(index, value);
+      this.reportInvalidOverrides();
+      this.requestUpdate();
+    }
+  }
+
+  private addProfile() {
+    this.updateProfiles(
+        [...this.profiles, {name: '', urlPattern: '', overrides: {}}]);
+  }
+
+  private removeProfile(index: number) {
+    this.invalidOverrides.clear();
+    this.reportInvalidOverrides();
+    this.updateProfiles(this.profiles.filter((_, i) => i !== index));
+  }
+
+  private moveProfile(index: number, step: number) {
+    const profiles = [...this.profiles];
+    const target = index + step;
+    if (target < 0 || target >= profiles.length) return;
+    [profiles[index], profiles[target]] = [profiles[target], profiles[index]];
+    this.invalidOverrides.clear();
+    this.reportInvalidOverrides();
+    this.updateProfiles(profiles);
+  }
+
+  private getProfileTemplate(profile: SiteProfile, index: number) {
+    const invalid = this.invalidOverrides.get(index);
+    const overrides = JSON.stringify(profile.overrides, null, 2);
+    return html`
+        <li>
+          <div class="row">
+            <input
+              placeholder="name"
+              .value=${profile.name}
+              @input=${(e: Event) => this.handleFieldChange(index, 'name', e)} />
+            <input
+              class="pattern"
+              placeholder="url pattern, e.g: ^https://gerrit-review"
+              .value=${profile.urlPattern}
+              @input=${
+        (e: Event) => this.handleFieldChange(index, 'urlPattern', e)} />
+            <button @click=${() => this.moveProfile(index, -1)}>up</button>
+            <button @click=${() => this.moveProfile(index, 1)}>down</button>
+            <button @click=${() => this.removeProfile(index)}>remove</button>
+          </div>
+          <textarea
+            class=${invalid === undefined ? '' : 'invalid'}
+            .value=${invalid === undefined ? overrides : invalid}
+            @input=${(e: Event) => this.handleOverridesChange(index, e)}>
+          </textarea>
+          ${invalid === undefined ? '' : html`<p class="error">Invalid JSON</p>`}
+        </li>
+      `;
+  }
+
+  private getPreviewTemplate() {
+    if (!this.previewUrl) return '';
+    const {config, profiles} = resolveConfig(this.config, this.previewUrl);
+    delete config.siteProfiles;
+    const names = profiles.map(p => p.name || p.urlPattern).join(', ');
+    return html`
+        <p>
+          ${names ? `Applied in order: ${names}` :
+                    'No profile applies, defaults are used.'}
+        </p>
+        <pre>${JSON.stringify(config, null, 2)}</pre>
+      `;
+  }
+
+  render() {
+    return html`
+        <h5>Site profiles</h5>
+        <p class="hint">
+          Overrides of profiles whose url pattern matches the page are merged
+          over the config above, in order.
+        </p>
+        <ul>
+          ${this.profiles.map((p, i) => this.getProfileTemplate(p, i))}
+        </ul>
+        <button @click=${this.addProfile}>add profile</button>
+        <h5>Which profile applies here</h5>
+        <input
+          class="pattern"
+          placeholder="https://gerrit-review.googlesource.com/c/gerrit/+/1"
+          .value=${this.previewUrl}
+          @input=${this.handlePreviewUrlChange} />
+        ${this.getPreviewTemplate()}
+       `;
+  }
+
+  static get styles() {
+    return css`
+        :host {
+          display: block;
+          margin-top: 10px;
+        }
+        ul {
+          padding: 0;
+        }
+        li {
+          list-style: none;
+          margin-bottom: 10px;
+        }
+        .row {
+          display: flex;
+        }
+        input.pattern {
+          flex: 1;
+          min-width: 300px;
+        }
+        textarea {
+          display: block;
+          margin: 5px 0 0 0;
+          min-height: 80px;
+          width: 100%;
+          padding: 10px;
+          box-sizing: border-box;
+        }
+        textarea.invalid {
+          border-color: #d93025;
+        }
+        .error {
+          color: #d93025;
+          margin: 0;
+        }
+        .hint {
+          color: #666;
+        }
+        pre {
+          background: #f1f1f1;
+          padding: 10px;
+        }
+        `;
+  }
+}
@@ -0,0 +1,52 @@
+import {alfred, Alfred} from './api';
+import {HIGHLIGHTER_NAME} from './highlighter/config';
+import {send} from './messages';
+import {platform} from './platform';
+import {startAlfred} from './standalone';
+import {EventNames} from './types';
+
+describe('startAlfred', () => {
+  beforeAll(async () => {
+    localStorage.setItem(
+        'alfred-sync:settings',
+        JSON.stringify({'Feature Toggles': {enabled: true}}));
+    await startAlfred(
+        {
+          [HIGHLIGHTER_NAME]: {enabled: false},
+          'Feature Toggles': {enabled: false},
+        },
+        {persist: true});
+  });
+
+  it('runs features with given settings, saved ones win', () => {
+    expect(Alfred.features.get(HIGHLIGHTER_NAME)!.enabled).toBe(false);
+    expect(Alfred.features.get('Feature Toggles')!.enabled).toBe(true);
+    expect(alfred.isActive(Alfred.features.get('Feature Toggles')!))
+        .toBe(true);
+  });
+
+  it('saves settings changed from the page to localStorage', async () => {
+    await send({
+      eventName: EventNames.UPDATE_SETTINGS_REQUEST,
+      settings: {[HIGHLIGHTER_NAME]: {enabled: true}},
+    });
+
+    const saved = JSON.parse(localStorage.getItem('alfred-sync:settings')!);
+    expect(saved[HIGHLIGHTER_NAME].enabled).toBe(true);
+    expect(Alfred.features.get(HIGHLIGHTER_NAME)!.enabled).toBe(true);
+  });
+
+  it('keeps local data in localStorage', async () => {
+    await platform().local.set('annotations:page', [{id: 'a'}]);
+
+    expect(localStorage.getItem('alfred-local:annotations:page'))
+        .toBe('[{"id":"a"}]');
+    await platform().local.clear();
+    expect(localStorage.getItem('alfred-sync:settings')).not.toBeNull();
+  });
+
+  it('rejects messages nothing handles', async () => {
+    await expect(send({eventName: EventNames.DIAGNOSTICS_REQUEST}))
+        .rejects.toThrow('No listener handled the message.');
+  });
+});
@@ -0,0 +1,78 @@
+import './features';
+
+import {alfred} from './api';
+import {COMMANDS} from './commands';
+import {listen, send, sendToTab} from './messages';
+import {NavigationWatcher} from './navigation';
+import {setPlatform} from './platform';
+import {LocalStorageStore, MemoryPlatform} from './platform/memory';
+import {SettingsStore} from './settings-store';
+import {Command, EventNames, Settings} from './types';
+import {debug, matchesShortcut} from './utils';
+
+// commands run by the background of the extension, e.g: toggling the site
+// edits synced settings, not available here
+const BACKGROUND_COMMANDS = [Command.TOGGLE_SITE];
+
+/** Options of `startAlfred`. */
+export interface StandaloneOptions {
+  // keep settings saved from the page and annotations in localStorage
+  persist?: boolean;
+}
+
+let started = false;
+
+/**
+ * Run alfred in a plain page without the extension, e.g: in a demo or a
+ * userscript.
+ *
+ * `settings` are used for features that have no saved settings, features
+ * missing from both use their defaults.
+ */
+export async function startAlfred(
+    settings: Settings = {}, options: StandaloneOptions = {}) {
+  if (started) {
+    console.warn('Alfred is running already.');
+    return alfred;
+  }
+  started = true;
+
+  const platform = options.persist ?
+      new MemoryPlatform(
+          new LocalStorageStore('alfred-sync:'),
+          new LocalStorageStore('alfred-local:')) :
+      new MemoryPlatform();
+  setPlatform(platform);
+  const saved = await platform.sync.get<Settings>('settings');
+  await platform.sync.set('settings', {...settings, ...saved});
+
+  // the page is its own background, there are no other tabs to notify
+  const store = new SettingsStore(changed => {
+    if (!alfred.skipSync) alfred.setSettings(changed);
+  });
+  listen(store.handlers());
+  // resolves once all features are running
+  alfred.setSettings(
+      await send({eventName: EventNames.SYNC_SETTINGS_REQUEST}), true);
+  await alfred.run();
+
+  // no browser to run commands, use their default shortcuts
+  document.addEventListener('keydown', event => {
+    const info = COMMANDS.find(
+        ({command, shortcut}) => !!shortcut &&
+            !BACKGROUND_COMMANDS.includes(command) &&
+            matchesShortcut(event, shortcut));
+    if (!info) return;
+    sendToTab(0, {
+      eventName: EventNames.RUN_COMMAND_REQUEST,
+      command: info.command,
+    }).catch(e => debug(e));
+  });
+
+  new NavigationWatcher(event => alfred.navigate(event).catch(e => debug(e)))
+      .start();
+  return alfred;
+}
+
+(window as unknown as {startAlfred: typeof startAlfred}).startAlfred =
+    startAlfred;
@@ -0,0 +1,193 @@
+/**
+ * In-memory stand-in for the chrome extension apis used by alfred, enough to
+ * run content scripts, the background page and the option page in jsdom.
+ *
+ * All contexts share one `onMessage`, so a message sent to the extension or
+ * to a tab reaches every listener registered in the test.
+ */
+
+type MessageListener =
+    (message: unknown, sender: chrome.runtime.MessageSender,
+     sendResponse: (response?: unknown) => void) => boolean | void;
+
+class FakeEvent<T extends Function> {
+  listeners: T[] = [];
+
+  addListener(listener: T) {
+    this.listeners.push(listener);
+  }
+
+  removeListener(listener: T) {
+    this.listeners = this.listeners.filter(l => l !== listener);
+  }
+
+  hasListener(listener: T) {
+    return this.listeners.includes(listener);
+  }
+}
+
+type Items = {[key: string]: unknown};
+
+class FakeStorageArea {
+  data: Items = {};
+
+  get(keys: string|string[]|null, callback: (items: Items) => void) {
+    const names = keys === null ? Object.keys(this.data) :
+                                  Array.isArray(keys) ? keys : [keys];
+    const items: Items = {};
+    names.forEach(name => {
+      // stored values are copies, like the real storage
+      if (name in this.data) items[name] = clone(this.data[name]);
+    });
+    later(() => callback(items));
+  }
+
+  set(items: Items, callback?: () => void) {
+    Object.keys(items).forEach(key => this.data[key] = clone(items[key]));
+    later(callback);
+  }
+
+  remove(keys: string|string[], callback?: () => void) {
+    (Array.isArray(keys) ? keys : [keys]).forEach(key => delete this.data[key]);
+    later(callback);
+  }
+
+  clear(callback?: () => void) {
+    this.data = {};
+    later(callback);
+  }
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+// chrome calls back asynchronously
+function later(callback?: () => void) {
+  if (callback) setTimeout(callback, 0);
+}
+
+/** A message sent to a tab, recorded for assertions. */
+export interface TabMessage {
+  tabId: number;
+  message: unknown;
+  frameId?: number;
+}
+
+/** Sender of messages sent with `chrome.runtime.sendMessage`. */
+export const DEFAULT_SENDER: chrome.runtime.MessageSender = {
+  id: 'alfred',
+  tab: {id: 1} as chrome.tabs.Tab,
+  frameId: 0,
+};
+
+export function createFakeChrome() {
+  const onMessage = new FakeEvent<MessageListener>();
+  const tabMessages: TabMessage[] = [];
+  const badges = new Map<number, string>();
+  const menuItems: string[] = [];
+  const openedUrls: string[] = [];
+
+  const runtime = {
+    id: 'alfred',
+    lastError: undefined as {message: string} | undefined,
+    onMessage,
+    getURL: (path: string) => `chrome-extension://alfred/${path}`,
+    openOptionsPage: () => {},
+    sendMessage(message: unknown, callback?: (response?: unknown) => void) {
+      dispatch(message, DEFAULT_SENDER, callback);
+    },
+  };
+
+  /**
+   * Deliver a message to all listeners as if sent from sender, calls back
+   * with the first response, or with `lastError` set when no listener
+   * responds.
+   */
+  function dispatch(
+      message: unknown, sender: chrome.runtime.MessageSender,
+      callback?: (response?: unknown) => void) {
+    let responded = false;
+    let keepOpen = false;
+    const sendResponse = (response?: unknown) => {
+      if (responded) return;
+      responded = true;
+      if (callback) later(() => callback(response));
+    };
+    onMessage.listeners.forEach(listener => {
+      if (listener(message, sender, sendResponse) === true) keepOpen = true;
+    });
+    if (responded || keepOpen || !callback) return;
+    later(() => {
+      runtime.lastError = {
+        message: 'The message port closed before a response was received.',
+      };
+      callback();
+      runtime.lastError = undefined;
+    });
+  }
+
+  return {
+    runtime,
+    storage: {
+      sync: new FakeStorageArea(),
+      local: new FakeStorageArea(),
+    },
+    tabs: {
+      onUpdated: new FakeEvent<Function>(),
+      onRemoved: new FakeEvent<Function>(),
+      query(info: {}, callback: (tabs: chrome.tabs.Tab[]) => void) {
+        later(() => callback([{id: 1, url: location.href} as chrome.tabs.Tab]));
+      },
+      create: (properties: {url: string}) => openedUrls.push(properties.url),
+      sendMessage(tabId: number, message: unknown, ...args: unknown[]) {
+        const options = typeof args[0] === 'object' ?
+            args[0] as {frameId?: number} :
+            {};
+        const callback = args.find(arg => typeof arg === 'function') as
+            (response?: unknown) => void;
+        tabMessages.push({tabId, message, frameId: options.frameId});
+        dispatch(
+            message, {id: 'alfred', frameId: options.frameId}, callback);
+      },
+    },
+    contextMenus: {
+      onClicked: new FakeEvent<Function>(),
+      create: (properties: {id: string}) => menuItems.push(properties.id),
+      removeAll: (callback?: () => void) => later(callback),
+    },
+    commands: {
+      onCommand: new FakeEvent<(command: string) => void>(),
+      getAll(callback: (commands: chrome.commands.Command[]) => void) {
+        later(() => callback([]));
+      },
+    },
+    browserAction: {
+      setBadgeText(details: {text: string, tabId?: number}) {
+        badges.set(details.tabId || 0, details.text);
+      },
+    },
+
+    // for tests only
+    dispatch,
+    tabMessages,
+    badges,
+    menuItems,
+    openedUrls,
+  };
+}
+
+/** The fake chrome, as installed on the global object. */
+export type FakeChrome = ReturnType<typeof createFakeChrome>;
+
+/** Install a new fake chrome, replacing the previous one. */
+export function installFakeChrome() {
+  const fake = createFakeChrome();
+  (globalThis as unknown as {chrome: FakeChrome}).chrome = fake;
+  return fake;
+}
+
+/** The fake chrome currently installed. */
+export function fakeChrome() {
+  return (globalThis as unknown as {chrome: FakeChrome}).chrome;
+}
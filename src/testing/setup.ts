@@ -0,0 +1,12 @@
+import {installFakeChrome} from './fake-chrome';
+
+// modules may use chrome as soon as they are imported
+installFakeChrome();
+
+// every test starts with empty storage and no listeners
+beforeEach(() => {
+  installFakeChrome();
+});
+
+// not implemented by jsdom
+Element.prototype.scrollIntoView = () => {};
@@ -4,6 +4,31 @@ export enum EventNames {
   SYNC_SETTINGS_RESPONSE = 'sync_settings_response',
   UPDATE_SETTINGS_REQUEST = 'update_settings_request',
   RESETE_SETTINGS_REQUEST = 'reset_settings_request',
+  IMPORT_SETTINGS_REQUEST = 'import_settings_request',
+  TOGGLE_SITE_REQUEST = 'toggle_site_request',
+  REPORT_STATS_REQUEST = 'report_stats_request',
+  DIAGNOSTICS_REQUEST = 'diagnostics_request',
+  CLEAR_DIAGNOSTICS_REQUEST = 'clear_diagnostics_request',
+  RELAY_TERM_REQUEST = 'relay_term_request',
+  HIGHLIGHT_TERM_REQUEST = 'highlight_term_request',
+  REPORT_MATCHES_REQUEST = 'report_matches_request',
+  TAB_MATCHES_REQUEST = 'tab_matches_request',
+  TAB_FEATURES_REQUEST = 'tab_features_request',
+  TOGGLE_FEATURE_REQUEST = 'toggle_feature_request',
+  RUN_COMMAND_REQUEST = 'run_command_request',
+}
+
+/**
+ * Actions run from keyboard shortcuts and the context menu, values are the
+ * names of commands in the manifest.
+ */
+export enum Command {
+  HIGHLIGHT_SELECTION = 'highlight-selection',
+  CLEAR_HIGHLIGHTS = 'clear-highlights',
+  PIN_TERM = 'pin-term',
+  TOGGLE_SITE = 'toggle-site',
+  SHOW_FEATURE_TOGGLES = 'show-feature-toggles',
+  OPEN_SEARCH = 'open-search',
 }
 
 /**
@@ -20,6 +45,37 @@ export interface Settings {
 export interface FeatureSetting {
   value?: string;
   enabled: boolean;
+  // version of the value, used to migrate values saved by older versions
+  version?: number;
+}
+
+/** Highlighted term and number of its matches. */
+export interface MatchesSummary {
+  term: string;
+  count: number;
+}
+
+/** Whether a feature is enabled in a tab. */
+export interface FeatureState {
+  name: string;
+  description: string;
+  enabled: boolean;
+}
+
+/** How imported settings are applied. */
+export type ImportMode = 'merge'|'replace';
+
+/** How the url changed without a page load. */
+export type NavigationType =
+    'pushState'|'replaceState'|'popstate'|'hashchange'|'poll';
+
+/**
+ * Url change without a page load, e.g: in single page apps.
+ */
+export interface NavigationEvent {
+  type: NavigationType;
+  url: string;
+  previousUrl: string;
 }
 
 /**
@@ -28,5 +84,33 @@ export interface FeatureSetting {
 export interface FeatureStats {
   lastRunTime?: number;
   runTimes: number;
+  // failures and durations not reported yet, the most recent ones only
   failures: Error[];
+  // time in ms spent on the main work of the feature, e.g: each highlight
+  durations: number[];
+}
+
+/**
+ * Error in a form that can be sent between extension pages.
+ */
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+}
+
+/**
+ * Stats of features in a page since its last report.
+ */
+export interface StatsReport {
+  // host of the page
+  site: string;
+  features: {
+    [featureName: string]: {
+      runTimes: number;
+      lastRunTime?: number;
+      failures: SerializedError[];
+      durations: number[];
+    };
+  };
 }
\ No newline at end of file
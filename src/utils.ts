@@ -111,39 +111,53 @@ class IntervalManager {
 
   start() {
     if (this.gInterval !== undefined) return;
-    this.run();
+    this.schedule();
+  }
+
+  // wake up when the next instance is due instead of ticking all the time,
+  // with at least 500 ms between wake-ups
+  private schedule() {
+    this.stop();
+    const now = Date.now();
+    const delays =
+        Array.from(this.intervalPool)
+            .filter(instance => !instance.isExecuting)
+            .map(instance => instance.lastRunTime + instance.interval - now);
+    // nothing to wait for, executing ones schedule again when done
+    if (!delays.length) return;
+    this.gInterval =
+        window.setTimeout(() => this.run(), Math.max(500, Math.min(...delays)));
   }
 
   run() {
+    this.gInterval = undefined;
     this.runStats.runTimes++;
     debug(
         'interval manager stats: ', this.runStats,
         'interval pool size is:', this.size);
-    this.gInterval = window.setTimeout(() => {
-      // run on every instances from the pool
-      this.intervalPool.forEach(instance => {
-        if (instance.stopWhen && instance.stopWhen()) {
-          this.remove(instance);
-        } else if (
-            !instance.isExecuting &&
-            (!instance.lastRunTime ||
-             Date.now() - instance.lastRunTime > instance.interval)) {
-          // mark as executing
-          instance.isExecuting = true;
-          this.runStats.executions++;
-          instance.run().finally(() => {
-            // either finished or failed, mark as done and last run time
-            instance.lastRunTime = Date.now();
-            instance.isExecuting = false;
-          });
-        } else {
-          debug('skip run for: ', instance.name);
-        }
-      });
-
-      // run every 500 ms
-      this.run();
-    }, 500);
+    // run on every instances from the pool
+    this.intervalPool.forEach(instance => {
+      if (instance.stopWhen && instance.stopWhen()) {
+        this.remove(instance);
+      } else if (
+          !instance.isExecuting &&
+          (!instance.lastRunTime ||
+           Date.now() - instance.lastRunTime >= instance.interval)) {
+        // mark as executing
+        instance.isExecuting = true;
+        this.runStats.executions++;
+        instance.run().finally(() => {
+          // either finished or failed, mark as done and last run time
+          instance.lastRunTime = Date.now();
+          instance.isExecuting = false;
+          if (this.intervalPool.has(instance)) this.schedule();
+        });
+      } else {
+        debug('skip run for: ', instance.name);
+      }
+    });
+
+    this.schedule();
   }
 
   // once add, can not change from outside other than calling stop
@@ -160,9 +174,8 @@ class IntervalManager {
     };
 
     this.intervalPool.add(instanceToBeAdded);
-    if (this.intervalPool.size > 0) {
-      this.start();
-    }
+    // it may be due before the next wake up
+    this.schedule();
 
     return instanceToBeAdded;
   }
@@ -228,10 +241,12 @@ export async function checkElementOrConditon<T>(
 
 /** timeout after */
 export function waitFor<T>(p: Promise<T>, ts: number) {
+  let timer: number|undefined;
   const timeoutP = new Promise((resolve, reject) => {
-    setTimeout(() => reject(new Error('timeout on waiting')), ts);
+    timer = setTimeout(() => reject(new Error('timeout on waiting')), ts);
   });
-  return Promise.race([p, timeoutP]);
+  // do not keep the timer around once settled
+  return Promise.race([p, timeoutP]).finally(() => clearTimeout(timer));
 }
 
 /** debounce */
@@ -248,4 +263,116 @@ export function debounce(
 /** returns if a node is in a shadow DOM or not */
 export function isInShadowDom(el: Node) {
   return el && el.getRootNode() && !!(el.getRootNode() as {host?: Node}).host;
-}
\ No newline at end of file
+}
+
+// node and the shadow hosts it's in, from the outermost one
+function hostChain(node: Node) {
+  const chain = [node];
+  let host = (node.getRootNode() as {host?: Node}).host;
+  while (host) {
+    chain.unshift(host);
+    host = (host.getRootNode() as {host?: Node}).host;
+  }
+  return chain;
+}
+
+/**
+ * Compare the order of two nodes in the document, shadow DOM compatible.
+ *
+ * Nodes inside a shadow root come right after their host. Returns a
+ * negative number when a comes first, positive when b does and 0 when they
+ * are the same node.
+ */
+export function compareNodeOrder(a: Node, b: Node) {
+  const chainA = hostChain(a);
+  const chainB = hostChain(b);
+  for (let i = 0; i < Math.min(chainA.length, chainB.length); i++) {
+    if (chainA[i] === chainB[i]) continue;
+    return chainA[i].compareDocumentPosition(chainB[i]) &
+            Node.DOCUMENT_POSITION_FOLLOWING ?
+        -1 :
+        1;
+  }
+  return chainA.length - chainB.length;
+}
+
+/** escape text so it can be used literally in a RegExp */
+export function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * returns true if the keyboard event matches the shortcut, shortcuts are
+ * modifiers followed by a `KeyboardEvent.code` joined with `+`, e.g:
+ * `Alt+Shift+KeyN`
+ */
+export function matchesShortcut(event: KeyboardEvent, shortcut: string) {
+  const keys = shortcut.split('+').map(key => key.trim());
+  const code = keys.pop();
+  const modifiers = new Set(keys.map(key => key.toLowerCase()));
+  return event.code === code && event.altKey === modifiers.has('alt') &&
+      event.ctrlKey === modifiers.has('ctrl') &&
+      event.metaKey === modifiers.has('meta') &&
+      event.shiftKey === modifiers.has('shift');
+}
+
+/** returns true if the node, or any of its parents, matches a selector */
+export function isWithin(
+    node: EventTarget|null|undefined, selectors: string[] = []) {
+  if (!(node instanceof Node)) return false;
+  let element = node instanceof Element ? node : node.parentElement;
+  while (element) {
+    const current = element;
+    if (selectors.some(selector => current.matches(selector))) return true;
+    element = element.parentElement;
+  }
+  return false;
+}
+
+/** attribute set on hosts of all ui injected by alfred */
+export const UI_HOST_ATTRIBUTE = 'data-alfred-ui';
+
+interface IdleDeadline {
+  timeRemaining(): number;
+}
+
+type RequestIdleCallback =
+    (callback: (deadline: IdleDeadline) => void,
+     options?: {timeout: number}) => number;
+
+/** resolves in the next idle period of the browser */
+export function nextIdle(timeout = 200): Promise<IdleDeadline> {
+  const requestIdleCallback =
+      (window as unknown as {requestIdleCallback?: RequestIdleCallback})
+          .requestIdleCallback;
+  if (requestIdleCallback) {
+    return new Promise(resolve => requestIdleCallback(resolve, {timeout}));
+  }
+  // no idle callback support, give each frame a fixed budget
+  return new Promise(resolve => {
+    setTimeout(() => {
+      const start = Date.now();
+      resolve({timeRemaining: () => Math.max(0, 10 - (Date.now() - start))});
+    });
+  });
+}
+
+/**
+ * Run step in idle periods until it returns false, so long running work
+ * does not block the page.
+ *
+ * Each period runs for at least `minSliceTime` ms, resolves to false if
+ * `isCancelled` returns true before all work is done.
+ */
+export async function runInIdleSlices(
+    step: () => boolean, isCancelled: () => boolean, minSliceTime = 5) {
+  while (true) {
+    const deadline = await nextIdle();
+    if (isCancelled()) return false;
+    const sliceEnd =
+        Date.now() + Math.max(deadline.timeRemaining(), minSliceTime);
+    while (Date.now() < sliceEnd) {
+      if (!step()) return true;
+    }
+  }
+}
@@ -7,8 +7,12 @@ module.exports = {
     mode: MODE,
     entry: {
         options: path.join(__dirname, srcDir + 'options.ts'),
+        popup: path.join(__dirname, srcDir + 'popup.ts'),
         background: path.join(__dirname, srcDir + 'background.ts'),
-        content_script: path.join(__dirname, srcDir + 'content_script.ts')
+        content_script: path.join(__dirname, srcDir + 'content_script.ts'),
+        page_bridge: path.join(__dirname, srcDir + 'page-bridge.ts'),
+        // runs without the extension, call `startAlfred(settings)` to boot
+        standalone: path.join(__dirname, srcDir + 'standalone.ts')
     },
     optimization:{
         minimize: MODE === "production",